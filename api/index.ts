@@ -1,12 +1,18 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "../server/routes.js";
+import { createStorage } from "../server/storage.js";
+import { scheduleTrashPurge } from "../server/trash.js";
+import { claimLegacySessions } from "../server/auth.js";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
 // Set up routes
-await registerRoutes(app);
+const storage = await createStorage(process.env.STORAGE_BACKEND);
+await registerRoutes(app, storage);
+scheduleTrashPurge(storage);
+await claimLegacySessions(storage, console.log);
 
 // Error handling middleware
 app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
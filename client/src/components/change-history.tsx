@@ -0,0 +1,54 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { EditableQRField, ScanRecordChange } from '@shared/schema';
+
+const FIELD_LABELS: Record<EditableQRField, string> = {
+  sellerName: 'Seller Name',
+  vatNumber: 'VAT Number',
+  invoiceNumber: 'Invoice Number',
+  invoiceDate: 'Invoice Date',
+  subtotal: 'Subtotal',
+  vatAmount: 'VAT Amount',
+  totalAmount: 'Total Amount',
+  zeroRated: 'Zero-rated',
+  notes: 'Notes',
+};
+
+export default function ChangeHistory({ qrId }: { qrId: number }) {
+  const { data: changes = [] } = useQuery<ScanRecordChange[]>({
+    queryKey: ['/api/qr-codes', qrId, 'history'],
+    queryFn: () => apiRequest('GET', `/api/qr-codes/${qrId}/history`).then(res => res.json()),
+  });
+
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="border-t pt-4">
+      <h4 className="font-medium text-gray-900 mb-3">Change History</h4>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="py-1 pr-3 font-medium">Field</th>
+              <th className="py-1 pr-3 font-medium">Old Value</th>
+              <th className="py-1 pr-3 font-medium">New Value</th>
+              <th className="py-1 pr-3 font-medium">Changed By</th>
+              <th className="py-1 font-medium">When</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {changes.map((change) => (
+              <tr key={change.id} className="align-top">
+                <td className="py-1 pr-3 font-medium">{FIELD_LABELS[change.field as EditableQRField] ?? change.field}</td>
+                <td className="py-1 pr-3 text-gray-500 line-through break-all auto-dir">{change.oldValue ?? '-'}</td>
+                <td className="py-1 pr-3 break-all auto-dir">{change.newValue ?? '-'}</td>
+                <td className="py-1 pr-3">{change.changedBy ?? 'Unknown'}</td>
+                <td className="py-1 whitespace-nowrap">{new Date(change.changedAt).toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -4,29 +4,85 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, XCircle, X } from 'lucide-react';
+import { CheckCircle, XCircle, X, ShieldCheck, ShieldAlert, AlertTriangle, Pencil } from 'lucide-react';
 import { ScannedQR } from '@shared/schema';
+import { getZATCAPhase } from '@shared/zatca-parser';
+import { getInvoiceNumberSource, INVOICE_NUMBER_SOURCE_LABELS } from '@shared/invoice-number';
+import { formatInvoiceTimestamp } from '@shared/invoice-date';
+import { VAT_NUMBER_ERROR_MESSAGES, type VatNumberError } from '@shared/vat-number';
+import { AMOUNT_FLAG_MESSAGES } from '@shared/invoice-rules';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import RecordEditForm from '@/components/record-edit-form';
+import ChangeHistory from '@/components/change-history';
 
 interface DetailModalProps {
   isOpen: boolean;
   onClose: () => void;
   qr: ScannedQR | null;
+  readOnly?: boolean;
 }
 
-export default function DetailModal({ isOpen, onClose, qr }: DetailModalProps) {
+export default function DetailModal({ isOpen, onClose, qr, readOnly = false }: DetailModalProps) {
+  const [invoiceNumberInput, setInvoiceNumberInput] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setInvoiceNumberInput('');
+    setIsEditing(false);
+  }, [qr?.id, isOpen]);
+
+  const invoiceNumberMutation = useMutation({
+    mutationFn: async ({ id, invoiceNumber }: { id: number; invoiceNumber: string }) => {
+      const response = await apiRequest('PATCH', `/api/qr-codes/${id}/invoice-number`, { invoiceNumber });
+      return response.json();
+    },
+    onSuccess: (updated: ScannedQR) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', updated.sessionId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', updated.id, 'history'] });
+      toast({
+        title: "Invoice Number Saved",
+        description: `Invoice number ${updated.invoiceNumber} has been recorded`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Could not save the invoice number. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   if (!qr) return null;
 
+  const invoiceNumberSource = getInvoiceNumberSource(qr);
+
   const formatCurrency = (amount: string | null) => {
     if (!amount) return '-';
     return `${parseFloat(amount).toFixed(2)} SAR`;
   };
 
+  const diagnostics = qr.parseDiagnostics || [];
+  const phase = getZATCAPhase(qr);
+  const cryptoFields = [
+    { label: 'Invoice Hash (Tag 6)', value: qr.invoiceHash },
+    { label: 'ECDSA Signature (Tag 7)', value: qr.signature },
+    { label: 'Public Key (Tag 8)', value: qr.publicKey },
+    { label: 'Stamp Signature (Tag 9)', value: qr.stampSignature },
+  ];
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             QR Code Details
@@ -35,7 +91,7 @@ export default function DetailModal({ isOpen, onClose, qr }: DetailModalProps) {
         
         <div className="space-y-6">
           {/* Status Badge */}
-          <div className="flex items-center">
+          <div className="flex items-center gap-2">
             <Badge 
               variant={qr.status === 'valid' ? 'default' : 'destructive'}
               className="inline-flex items-center"
@@ -46,53 +102,176 @@ export default function DetailModal({ isOpen, onClose, qr }: DetailModalProps) {
                 <><XCircle className="w-4 h-4 mr-1" />Invalid QR Code</>
               )}
             </Badge>
+            {qr.status === 'valid' && !qr.isManualEntry && (
+              <Badge variant="outline" className="inline-flex items-center">
+                {phase === 2 ? (
+                  <><ShieldCheck className="w-4 h-4 mr-1" />Phase 2 (Integration)</>
+                ) : (
+                  <>Phase 1 (Generation)</>
+                )}
+              </Badge>
+            )}
+            {qr.signatureStatus === 'verified' && (
+              <Badge variant="outline" className="inline-flex items-center text-success border-success/30">
+                <ShieldCheck className="w-4 h-4 mr-1" />Signature Verified
+              </Badge>
+            )}
+            {qr.signatureStatus === 'failed' && (
+              <Badge variant="destructive" className="inline-flex items-center">
+                <ShieldAlert className="w-4 h-4 mr-1" />Signature Check Failed
+              </Badge>
+            )}
           </div>
 
-          <div className="grid grid-cols-2 gap-6">
-            <div>
-              <h4 className="font-medium text-gray-900 mb-3">Basic Information</h4>
-              <dl className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <dt className="text-gray-600">Seller Name:</dt>
-                  <dd className="font-medium text-right auto-dir">{qr.sellerName || '-'}</dd>
-                </div>
-                <div className="flex justify-between">
-                  <dt className="text-gray-600">VAT Number:</dt>
-                  <dd className="font-medium text-right">{qr.vatNumber || '-'}</dd>
-                </div>
-                <div className="flex justify-between">
-                  <dt className="text-gray-600">Invoice Date:</dt>
-                  <dd className="font-medium text-right">{qr.invoiceDate || '-'}</dd>
-                </div>
-                <div className="flex justify-between">
-                  <dt className="text-gray-600">Invoice Number:</dt>
-                  <dd className="font-medium text-right">{qr.invoiceNumber || '-'}</dd>
-                </div>
-                <div className="flex justify-between">
-                  <dt className="text-gray-600">Scanned At:</dt>
-                  <dd className="font-medium text-right">{new Date(qr.scannedAt).toLocaleString()}</dd>
-                </div>
-              </dl>
+          {diagnostics.length > 0 && (
+            <div className={`rounded-lg border p-3 ${qr.status === 'invalid' ? 'border-destructive/30 bg-destructive/5' : 'border-warning/30 bg-warning/5'}`}>
+              <h4 className="font-medium text-gray-900 mb-2">
+                {qr.status === 'invalid' ? 'Why this QR code is invalid' : 'Decoder warnings'}
+              </h4>
+              <ul className="space-y-1 text-sm">
+                {diagnostics.map((diagnostic, index) => (
+                  <li key={index} className="flex items-start gap-2">
+                    {diagnostic.severity === 'error' ? (
+                      <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-destructive" />
+                    ) : (
+                      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-warning" />
+                    )}
+                    <span>
+                      {diagnostic.message}
+                      {diagnostic.offset !== undefined && (
+                        <span className="text-gray-500"> (byte {diagnostic.offset})</span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {isEditing ? (
+            <RecordEditForm qr={qr} onDone={() => setIsEditing(false)} />
+          ) : (
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <h4 className="font-medium text-gray-900 mb-3">Basic Information</h4>
+                <dl className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Seller Name:</dt>
+                    <dd className="font-medium text-right auto-dir">{qr.sellerName || '-'}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">VAT Number:</dt>
+                    <dd className="font-medium text-right">
+                      {qr.vatNumber || '-'}
+                      {qr.vatNumberError && (
+                        <span className="flex items-center justify-end gap-1 text-xs font-normal text-warning">
+                          <AlertTriangle className="w-3 h-3" />
+                          {VAT_NUMBER_ERROR_MESSAGES[qr.vatNumberError as VatNumberError]}
+                        </span>
+                      )}
+                    </dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Invoice Date:</dt>
+                    <dd className="font-medium text-right">
+                      {formatInvoiceTimestamp(qr.invoiceDate, qr.invoiceTimezone)}
+                      {qr.invoiceDate && !qr.invoiceTimezone && (
+                        <span className="block text-xs font-normal text-gray-500">No offset on invoice, KSA time assumed</span>
+                      )}
+                    </dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Invoice Number:</dt>
+                    <dd className="font-medium text-right">
+                      {qr.invoiceNumber || <span className="text-warning">To be filled</span>}
+                      <span className="block text-xs font-normal text-gray-500">
+                        {INVOICE_NUMBER_SOURCE_LABELS[invoiceNumberSource]}
+                      </span>
+                    </dd>
+                  </div>
+                  {invoiceNumberSource === 'missing' && !readOnly && (
+                    <form
+                      className="flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        if (invoiceNumberInput.trim()) {
+                          invoiceNumberMutation.mutate({ id: qr.id, invoiceNumber: invoiceNumberInput.trim() });
+                        }
+                      }}
+                    >
+                      <Input
+                        value={invoiceNumberInput}
+                        onChange={(e) => setInvoiceNumberInput(e.target.value)}
+                        placeholder="Enter invoice number"
+                        className="h-8 text-sm"
+                      />
+                      <Button
+                        type="submit"
+                        size="sm"
+                        disabled={!invoiceNumberInput.trim() || invoiceNumberMutation.isPending}
+                      >
+                        Save
+                      </Button>
+                    </form>
+                  )}
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Scanned At:</dt>
+                    <dd className="font-medium text-right">{new Date(qr.scannedAt).toLocaleString()}</dd>
+                  </div>
+                  {qr.notes && (
+                    <div className="flex justify-between gap-3">
+                      <dt className="text-gray-600">Notes:</dt>
+                      <dd className="font-medium text-right whitespace-pre-wrap auto-dir">{qr.notes}</dd>
+                    </div>
+                  )}
+                </dl>
+              </div>
+              
+              <div>
+                <h4 className="font-medium text-gray-900 mb-3">Financial Details</h4>
+                <dl className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Subtotal:</dt>
+                    <dd className="font-medium text-right">{formatCurrency(qr.subtotal)}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">VAT Amount:</dt>
+                    <dd className="font-medium text-right">{formatCurrency(qr.vatAmount)}</dd>
+                  </div>
+                  <div className="flex justify-between border-t pt-2">
+                    <dt className="text-gray-900 font-medium">Total Amount:</dt>
+                    <dd className="font-bold text-lg text-right">{formatCurrency(qr.totalAmount)}</dd>
+                  </div>
+                </dl>
+                {qr.amountFlags && qr.amountFlags.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-xs text-warning">
+                    {qr.amountFlags.map(flag => (
+                      <li key={flag} className="flex items-start gap-1">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        {AMOUNT_FLAG_MESSAGES[flag]}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
             </div>
-            
-            <div>
-              <h4 className="font-medium text-gray-900 mb-3">Financial Details</h4>
+          )}
+
+          {phase === 2 && (
+            <div className="border-t pt-4">
+              <h4 className="font-medium text-gray-900 mb-3">Cryptographic Stamp</h4>
               <dl className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <dt className="text-gray-600">Subtotal:</dt>
-                  <dd className="font-medium text-right">{formatCurrency(qr.subtotal)}</dd>
-                </div>
-                <div className="flex justify-between">
-                  <dt className="text-gray-600">VAT Amount:</dt>
-                  <dd className="font-medium text-right">{formatCurrency(qr.vatAmount)}</dd>
-                </div>
-                <div className="flex justify-between border-t pt-2">
-                  <dt className="text-gray-900 font-medium">Total Amount:</dt>
-                  <dd className="font-bold text-lg text-right">{formatCurrency(qr.totalAmount)}</dd>
-                </div>
+                {cryptoFields.map(({ label, value }) => (
+                  <div key={label}>
+                    <dt className="text-gray-600">{label}:</dt>
+                    <dd className="font-mono text-xs break-all bg-gray-50 rounded p-2 mt-1">{value || '-'}</dd>
+                  </div>
+                ))}
               </dl>
             </div>
-          </div>
+          )}
+
+          <ChangeHistory qrId={qr.id} />
 
           <div className="border-t pt-4">
             <h4 className="font-medium text-gray-900 mb-3">Raw QR Data</h4>
@@ -104,7 +283,13 @@ export default function DetailModal({ isOpen, onClose, qr }: DetailModalProps) {
             />
           </div>
 
-          <div className="flex justify-end">
+          <div className="flex justify-end space-x-3">
+            {!readOnly && !isEditing && (
+              <Button variant="outline" onClick={() => setIsEditing(true)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+            )}
             <Button onClick={onClose}>
               Close
             </Button>
@@ -1,4 +1,6 @@
 import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
 import {
   Dialog,
   DialogContent,
@@ -17,8 +19,22 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { FileSpreadsheet, Download } from 'lucide-react';
-import { ScannedQR } from '@shared/schema';
-import { exportToExcel, ExportOptions } from '@/lib/excel-export';
+import { ExportTemplate, JournalProfile, ScannedQR } from '@shared/schema';
+import {
+  selectExportRecords,
+  exportFilename,
+  CSV_DELIMITERS,
+  CSV_DELIMITER_LABELS,
+  CsvDelimiter,
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_LABELS,
+  ExportFormat,
+  ExportRange,
+  JOURNAL_FORMATS,
+} from '@shared/data-export';
+import { isHeldFromJournal } from '@shared/journal-entries';
+import { apiRequest } from '@/lib/queryClient';
+import { downloadBlob } from '@/lib/download';
 import { useToast } from '@/hooks/use-toast';
 
 interface ExportModalProps {
@@ -26,49 +42,76 @@ interface ExportModalProps {
   onClose: () => void;
   qrCodes: ScannedQR[];
   selectedIds: number[];
+  sessionId: string;
 }
 
-export default function ExportModal({ isOpen, onClose, qrCodes, selectedIds }: ExportModalProps) {
-  const [exportRange, setExportRange] = useState<'all' | 'selected' | 'valid'>('all');
+export default function ExportModal({ isOpen, onClose, qrCodes, selectedIds, sessionId }: ExportModalProps) {
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [exportRange, setExportRange] = useState<ExportRange>('all');
   const [filename, setFilename] = useState(`zatca_qr_export_${new Date().toISOString().split('T')[0]}`);
   const [includeHeaders, setIncludeHeaders] = useState(true);
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+  const [templateId, setTemplateId] = useState('standard');
+  const [profileId, setProfileId] = useState('');
   
   const { toast } = useToast();
 
-  const getRecordCount = (range: 'all' | 'selected' | 'valid') => {
-    switch (range) {
-      case 'all':
-        return qrCodes.length;
-      case 'selected':
-        return selectedIds.length;
-      case 'valid':
-        return qrCodes.filter(qr => qr.status === 'valid').length;
-      default:
-        return 0;
-    }
-  };
+  const { data: templates = [] } = useQuery<ExportTemplate[]>({
+    queryKey: ['/api/export-templates'],
+    queryFn: () => apiRequest('GET', '/api/export-templates').then(res => res.json()),
+    enabled: isOpen,
+  });
+
+  const { data: journalProfiles = [] } = useQuery<JournalProfile[]>({
+    queryKey: ['/api/journal-profiles'],
+    queryFn: () => apiRequest('GET', '/api/journal-profiles').then(res => res.json()),
+    enabled: isOpen,
+  });
+
+  const isReport = format === 'xlsx' || format === 'pdf';
+  const isJournal = JOURNAL_FORMATS.includes(format);
+  const isCSV = format === 'csv' || format === 'journal-csv';
+  // The first profile until another one is picked
+  const journalProfileId = profileId || (journalProfiles[0] ? String(journalProfiles[0].id) : '');
+
+  const getRecords = (range: ExportRange) => selectExportRecords(qrCodes, range, selectedIds);
+
+  const getRecordCount = (range: ExportRange) => getRecords(range).length;
+  // Valid records the journal leaves out over their signature or VAT number
+  const heldBackCount = getRecords(exportRange)
+    .filter(qr => qr.status === 'valid' && isHeldFromJournal(qr))
+    .length;
 
   const handleExport = async () => {
-    const options: ExportOptions = {
+    // The server generates the file and adds the export to the audit log
+    const params = new URLSearchParams({
+      format,
+      range: exportRange,
+      headers: String(includeHeaders),
       filename,
-      includeHeaders,
-      exportRange,
-      selectedIds: exportRange === 'selected' ? selectedIds : undefined,
-    };
+    });
+    if (isCSV) params.set('delimiter', delimiter);
+    if (exportRange === 'selected') params.set('ids', selectedIds.join(','));
+    if (isReport && templateId !== 'standard') params.set('template', templateId);
+    if (isJournal) params.set('profile', journalProfileId);
 
     try {
-      await exportToExcel(qrCodes, options);
-      
+      const response = await apiRequest('GET', `/api/sessions/${sessionId}/export?${params}`);
+      const savedAs = exportFilename(filename, format);
+      downloadBlob(await response.blob(), savedAs);
+
       toast({
         title: "Export Successful",
-        description: `Excel file "${filename}.xlsx" has been downloaded with ZatScan logo`,
+        description: format === 'xlsx'
+          ? `Excel file "${savedAs}" has been downloaded with ZatScan logo`
+          : `"${savedAs}" has been downloaded`,
       });
-      
+
       onClose();
     } catch (error) {
       toast({
         title: "Export Failed",
-        description: "An error occurred while generating the Excel file",
+        description: `An error occurred while generating the ${format.toUpperCase()} file`,
         variant: "destructive",
       });
     }
@@ -80,7 +123,7 @@ export default function ExportModal({ isOpen, onClose, qrCodes, selectedIds }: E
         <DialogHeader>
           <DialogTitle className="flex items-center">
             <FileSpreadsheet className="w-5 h-5 text-green-600 mr-3" />
-            Export to Excel
+            Export Data
           </DialogTitle>
         </DialogHeader>
         
@@ -90,11 +133,97 @@ export default function ExportModal({ isOpen, onClose, qrCodes, selectedIds }: E
           </p>
           
           <div className="space-y-4">
+            <div>
+              <Label htmlFor="export-format" className="text-sm font-medium text-gray-700">
+                Format
+              </Label>
+              <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+                <SelectTrigger id="export-format" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {EXPORT_FORMAT_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {(format === 'csv' || format === 'jsonl') && (
+                <p className="text-xs text-gray-500 mt-1">
+                  One {format === 'csv' ? 'row' : 'line'} per record with fixed columns, for import scripts.
+                </p>
+              )}
+              {isJournal && (
+                <p className="text-xs text-gray-500 mt-1">
+                  A purchase journal entry per valid record: expense and input VAT debited, the supplier's payable credited.
+                  {heldBackCount > 0 && ` ${heldBackCount} record(s) with a failed signature or an invalid VAT number are left out until they are fixed.`}
+                </p>
+              )}
+            </div>
+
+            {isJournal && (
+              <div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="export-journal-profile" className="text-sm font-medium text-gray-700">
+                    Journal Profile
+                  </Label>
+                  <Link href="/settings" className="text-xs text-primary hover:underline">
+                    Manage profiles
+                  </Link>
+                </div>
+                {journalProfiles.length === 0 ? (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Add a journal profile with your account codes under Settings first.
+                  </p>
+                ) : (
+                  <Select value={journalProfileId} onValueChange={setProfileId}>
+                    <SelectTrigger id="export-journal-profile" className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {journalProfiles.map((profile) => (
+                        <SelectItem key={profile.id} value={String(profile.id)}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
+            {isReport && (
+              <div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="export-template" className="text-sm font-medium text-gray-700">
+                    Template
+                  </Label>
+                  <Link href="/settings" className="text-xs text-primary hover:underline">
+                    Manage templates
+                  </Link>
+                </div>
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger id="export-template" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="standard">Standard report</SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={String(template.id)}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div>
               <Label htmlFor="export-range" className="text-sm font-medium text-gray-700">
                 Export Range
               </Label>
-              <Select value={exportRange} onValueChange={(value: 'all' | 'selected' | 'valid') => setExportRange(value)}>
+              <Select value={exportRange} onValueChange={(value: ExportRange) => setExportRange(value)}>
                 <SelectTrigger className="mt-1">
                   <SelectValue />
                 </SelectTrigger>
@@ -125,16 +254,38 @@ export default function ExportModal({ isOpen, onClose, qrCodes, selectedIds }: E
               />
             </div>
             
-            <div className="flex items-center space-x-2">
-              <Checkbox
-                id="include-headers"
-                checked={includeHeaders}
-                onCheckedChange={(checked) => setIncludeHeaders(checked as boolean)}
-              />
-              <Label htmlFor="include-headers" className="text-sm text-gray-700">
-                Include column headers
-              </Label>
-            </div>
+            {isCSV && (
+              <div>
+                <Label htmlFor="csv-delimiter" className="text-sm font-medium text-gray-700">
+                  Delimiter
+                </Label>
+                <Select value={delimiter} onValueChange={(value: CsvDelimiter) => setDelimiter(value)}>
+                  <SelectTrigger id="csv-delimiter" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DELIMITERS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {CSV_DELIMITER_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            
+            {format !== 'jsonl' && format !== 'journal-json' && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="include-headers"
+                  checked={includeHeaders}
+                  onCheckedChange={(checked) => setIncludeHeaders(checked as boolean)}
+                />
+                <Label htmlFor="include-headers" className="text-sm text-gray-700">
+                  Include column headers
+                </Label>
+              </div>
+            )}
           </div>
 
           <div className="flex space-x-3">
@@ -148,7 +299,7 @@ export default function ExportModal({ isOpen, onClose, qrCodes, selectedIds }: E
             <Button
               className="flex-1 bg-green-600 hover:bg-green-700"
               onClick={handleExport}
-              disabled={getRecordCount(exportRange) === 0}
+              disabled={getRecordCount(exportRange) === 0 || (isJournal && !journalProfileId)}
             >
               <Download className="w-4 h-4 mr-2" />
               Download
@@ -0,0 +1,368 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { LayoutTemplate, Pencil, Trash2, Plus, ArrowUp, ArrowDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { errorMessage } from '@/hooks/use-auth';
+import { ExportTemplate, NewExportTemplate } from '@shared/schema';
+import {
+  BRANDING_FIELDS,
+  BRANDING_FIELD_LABELS,
+  DEFAULT_TEMPLATE_SETTINGS,
+  HEADER_LANGUAGES,
+  HEADER_LANGUAGE_LABELS,
+  NUMBER_FORMATS,
+  NUMBER_FORMAT_LABELS,
+  TEMPLATE_FIELDS,
+  TEMPLATE_FIELD_LABELS,
+  ExportTemplateSettings,
+  HeaderLanguage,
+  NumberFormat,
+  TemplateColumn,
+  TemplateField,
+} from '@shared/export-templates';
+
+const emptyForm = (): NewExportTemplate => ({ name: '', settings: DEFAULT_TEMPLATE_SETTINGS });
+
+// Saved layouts for the Excel and PDF reports, picked in the export dialog
+export default function ExportTemplates() {
+  const [form, setForm] = useState<NewExportTemplate>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery<ExportTemplate[]>({
+    queryKey: ['/api/export-templates'],
+    queryFn: () => apiRequest('GET', '/api/export-templates').then(res => res.json()),
+  });
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (template: NewExportTemplate): Promise<ExportTemplate> => {
+      const response = editingId === null
+        ? await apiRequest('POST', '/api/export-templates', template)
+        : await apiRequest('PATCH', `/api/export-templates/${editingId}`, template);
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/export-templates'] });
+      toast({
+        title: editingId === null ? "Template Created" : "Template Updated",
+        description: `"${saved.name}" can be picked when exporting`,
+      });
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Template Not Saved",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/export-templates/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/export-templates'] });
+      if (id === editingId) resetForm();
+      toast({
+        title: "Template Deleted",
+        description: "Exports use the standard report unless another template is picked",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete Failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { settings } = form;
+  const setSettings = (updates: Partial<ExportTemplateSettings>) =>
+    setForm({ ...form, settings: { ...settings, ...updates } });
+
+  const setColumns = (columns: TemplateColumn[]) => setSettings({ columns });
+
+  const updateColumn = (index: number, updates: Partial<TemplateColumn>) =>
+    setColumns(settings.columns.map((column, i) => (i === index ? { ...column, ...updates } : column)));
+
+  const moveColumn = (index: number, offset: number) => {
+    const columns = [...settings.columns];
+    [columns[index], columns[index + offset]] = [columns[index + offset], columns[index]];
+    setColumns(columns);
+  };
+
+  const unusedFields = TEMPLATE_FIELDS.filter(field => !settings.columns.some(column => column.field === field));
+
+  const handleEdit = (template: ExportTemplate) => {
+    setForm({ name: template.name, settings: template.settings });
+    setEditingId(template.id);
+  };
+
+  const handleDelete = (template: ExportTemplate) => {
+    if (window.confirm(`Delete the template "${template.name}"?`)) {
+      deleteMutation.mutate(template.id);
+    }
+  };
+
+  return (
+    <div className="glass-card p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center">
+            <LayoutTemplate className="w-4 h-4 text-primary" />
+          </div>
+          Export Templates
+        </h2>
+        <p className="text-sm text-muted-foreground mt-2">
+          Choose the fields, headers and branding of the Excel and PDF reports. CSV and JSON Lines exports keep their fixed columns.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">No export templates yet.</p>
+      ) : (
+        <ul className="divide-y divide-white/10 glass-surface rounded-xl">
+          {templates.map((template) => (
+            <li key={template.id} className="flex items-center justify-between gap-3 px-3 py-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-foreground truncate">{template.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {template.settings.columns.length} fields · {HEADER_LANGUAGE_LABELS[template.settings.headerLanguage]} headers
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="outline" size="sm" className="glass-button" onClick={() => handleEdit(template)}>
+                  <Pencil className="w-4 h-4 mr-1" />
+                  Edit
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="glass-button text-destructive hover:text-destructive-foreground"
+                  onClick={() => handleDelete(template)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Delete
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveMutation.mutate(form);
+        }}
+      >
+        <h3 className="text-sm font-semibold text-foreground">
+          {editingId === null ? 'New template' : `Editing "${templates.find(t => t.id === editingId)?.name ?? form.name}"`}
+        </h3>
+
+        <div>
+          <Label htmlFor="template-name" className="text-sm font-medium text-gray-700">
+            Name
+          </Label>
+          <Input
+            id="template-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Client report"
+            className="mt-1"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Fields</Label>
+          <p className="text-xs text-muted-foreground">Leave a header blank to use the default one shown.</p>
+          {settings.columns.map((column, index) => (
+            <div key={column.field} className="flex items-center gap-2">
+              <span className="w-32 shrink-0 text-sm text-foreground truncate">
+                {TEMPLATE_FIELD_LABELS[column.field].en}
+              </span>
+              <Input
+                value={column.labelEn}
+                onChange={(e) => updateColumn(index, { labelEn: e.target.value })}
+                placeholder={TEMPLATE_FIELD_LABELS[column.field].en}
+                aria-label={`${TEMPLATE_FIELD_LABELS[column.field].en} English header`}
+              />
+              <Input
+                value={column.labelAr}
+                onChange={(e) => updateColumn(index, { labelAr: e.target.value })}
+                placeholder={TEMPLATE_FIELD_LABELS[column.field].ar}
+                aria-label={`${TEMPLATE_FIELD_LABELS[column.field].en} Arabic header`}
+                dir="rtl"
+              />
+              <Button type="button" variant="ghost" size="icon" onClick={() => moveColumn(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => moveColumn(index, 1)}
+                disabled={index === settings.columns.length - 1}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setColumns(settings.columns.filter((_, i) => i !== index))}
+                disabled={settings.columns.length === 1}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {unusedFields.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(field: TemplateField) =>
+                setColumns([...settings.columns, { field, labelEn: '', labelAr: '' }])}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Add a field" />
+              </SelectTrigger>
+              <SelectContent>
+                {unusedFields.map((field) => (
+                  <SelectItem key={field} value={field}>
+                    {TEMPLATE_FIELD_LABELS[field].en}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="template-header-language" className="text-sm font-medium text-gray-700">
+              Header language
+            </Label>
+            <Select
+              value={settings.headerLanguage}
+              onValueChange={(headerLanguage: HeaderLanguage) => setSettings({ headerLanguage })}
+            >
+              <SelectTrigger id="template-header-language" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HEADER_LANGUAGES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {HEADER_LANGUAGE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="template-number-format" className="text-sm font-medium text-gray-700">
+              Amounts
+            </Label>
+            <Select
+              value={settings.numberFormat}
+              onValueChange={(numberFormat: NumberFormat) => setSettings({ numberFormat })}
+            >
+              <SelectTrigger id="template-number-format" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NUMBER_FORMATS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {NUMBER_FORMAT_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-6">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="template-show-logo"
+              checked={settings.showLogo}
+              onCheckedChange={(checked) => setSettings({ showLogo: checked === true })}
+            />
+            <Label htmlFor="template-show-logo" className="text-sm text-gray-700">
+              Show the logo
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="template-show-summary"
+              checked={settings.showSummary}
+              onCheckedChange={(checked) => setSettings({ showSummary: checked === true })}
+            />
+            <Label htmlFor="template-show-summary" className="text-sm text-gray-700">
+              Show the summaries
+            </Label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Branding</Label>
+          <p className="text-xs text-muted-foreground">Blank lines are left out of the report.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {BRANDING_FIELDS.map((field) => (
+              <div key={field}>
+                <Label htmlFor={`template-branding-${field}`} className="text-xs text-muted-foreground">
+                  {BRANDING_FIELD_LABELS[field]}
+                </Label>
+                <Input
+                  id={`template-branding-${field}`}
+                  value={settings.branding[field]}
+                  onChange={(e) => setSettings({ branding: { ...settings.branding, [field]: e.target.value } })}
+                  className="mt-1"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={!form.name.trim() || saveMutation.isPending}>
+            {editingId === null && <Plus className="w-4 h-4 mr-2" />}
+            {editingId === null ? 'Create Template' : 'Save Template'}
+          </Button>
+          {editingId !== null && (
+            <Button type="button" variant="ghost" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
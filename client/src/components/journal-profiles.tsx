@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { BookOpen, Pencil, Trash2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { errorMessage } from '@/hooks/use-auth';
+import { JournalProfile, NewJournalProfile } from '@shared/schema';
+import {
+  DEFAULT_JOURNAL_SETTINGS,
+  JOURNAL_ACCOUNTS,
+  JOURNAL_ACCOUNT_LABELS,
+  JournalAccountCodes,
+  SellerAccountCodes,
+} from '@shared/journal-entries';
+
+const emptyForm = (): NewJournalProfile => ({ name: '', settings: DEFAULT_JOURNAL_SETTINGS });
+
+// GL account codes for the journal-entry exports, picked in the export dialog
+export default function JournalProfiles() {
+  const [form, setForm] = useState<NewJournalProfile>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [], isLoading } = useQuery<JournalProfile[]>({
+    queryKey: ['/api/journal-profiles'],
+    queryFn: () => apiRequest('GET', '/api/journal-profiles').then(res => res.json()),
+  });
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (profile: NewJournalProfile): Promise<JournalProfile> => {
+      const response = editingId === null
+        ? await apiRequest('POST', '/api/journal-profiles', profile)
+        : await apiRequest('PATCH', `/api/journal-profiles/${editingId}`, profile);
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/journal-profiles'] });
+      toast({
+        title: editingId === null ? "Profile Created" : "Profile Updated",
+        description: `"${saved.name}" can be picked for journal-entry exports`,
+      });
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Profile Not Saved",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/journal-profiles/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/journal-profiles'] });
+      if (id === editingId) resetForm();
+      toast({
+        title: "Profile Deleted",
+        description: "The journal profile has been deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete Failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { settings } = form;
+
+  const setAccounts = (updates: Partial<JournalAccountCodes>) =>
+    setForm({ ...form, settings: { ...settings, accounts: { ...settings.accounts, ...updates } } });
+
+  const setSellers = (sellers: SellerAccountCodes[]) => setForm({ ...form, settings: { ...settings, sellers } });
+
+  const updateSeller = (index: number, updates: Partial<SellerAccountCodes>) =>
+    setSellers(settings.sellers.map((seller, i) => (i === index ? { ...seller, ...updates } : seller)));
+
+  const handleEdit = (profile: JournalProfile) => {
+    setForm({ name: profile.name, settings: profile.settings });
+    setEditingId(profile.id);
+  };
+
+  const handleDelete = (profile: JournalProfile) => {
+    if (window.confirm(`Delete the journal profile "${profile.name}"?`)) {
+      deleteMutation.mutate(profile.id);
+    }
+  };
+
+  const canSave = form.name.trim() && JOURNAL_ACCOUNTS.every(account => settings.accounts[account].trim());
+
+  return (
+    <div className="glass-card p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center">
+            <BookOpen className="w-4 h-4 text-primary" />
+          </div>
+          Journal Profiles
+        </h2>
+        <p className="text-sm text-muted-foreground mt-2">
+          Journal-entry exports post each valid invoice to these GL accounts: the expense and input VAT are debited and the
+          supplier's payable is credited. Sellers listed by VAT number can use their own accounts.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : profiles.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">No journal profiles yet.</p>
+      ) : (
+        <ul className="divide-y divide-white/10 glass-surface rounded-xl">
+          {profiles.map((profile) => (
+            <li key={profile.id} className="flex items-center justify-between gap-3 px-3 py-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-foreground truncate">{profile.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {JOURNAL_ACCOUNTS.map(account => profile.settings.accounts[account]).join(' / ')}
+                  {profile.settings.sellers.length > 0 && ` · ${profile.settings.sellers.length} sellers with their own accounts`}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="outline" size="sm" className="glass-button" onClick={() => handleEdit(profile)}>
+                  <Pencil className="w-4 h-4 mr-1" />
+                  Edit
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="glass-button text-destructive hover:text-destructive-foreground"
+                  onClick={() => handleDelete(profile)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Delete
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveMutation.mutate(form);
+        }}
+      >
+        <h3 className="text-sm font-semibold text-foreground">
+          {editingId === null ? 'New profile' : `Editing "${profiles.find(p => p.id === editingId)?.name ?? form.name}"`}
+        </h3>
+
+        <div>
+          <Label htmlFor="journal-profile-name" className="text-sm font-medium text-gray-700">
+            Name
+          </Label>
+          <Input
+            id="journal-profile-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Purchases ledger"
+            className="mt-1"
+            required
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {JOURNAL_ACCOUNTS.map((account) => (
+            <div key={account}>
+              <Label htmlFor={`journal-account-${account}`} className="text-sm font-medium text-gray-700">
+                {JOURNAL_ACCOUNT_LABELS[account]} account
+              </Label>
+              <Input
+                id={`journal-account-${account}`}
+                value={settings.accounts[account]}
+                onChange={(e) => setAccounts({ [account]: e.target.value })}
+                className="mt-1 font-mono"
+                required
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Seller accounts</Label>
+          <p className="text-xs text-muted-foreground">Leave an account blank to use the one above.</p>
+          {settings.sellers.map((seller, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={seller.vatNumber}
+                onChange={(e) => updateSeller(index, { vatNumber: e.target.value })}
+                placeholder="VAT number"
+                aria-label="Seller VAT number"
+                className="font-mono"
+              />
+              {JOURNAL_ACCOUNTS.map((account) => (
+                <Input
+                  key={account}
+                  value={seller[account]}
+                  onChange={(e) => updateSeller(index, { [account]: e.target.value })}
+                  placeholder={settings.accounts[account] || JOURNAL_ACCOUNT_LABELS[account]}
+                  aria-label={`${JOURNAL_ACCOUNT_LABELS[account]} account`}
+                  className="font-mono"
+                />
+              ))}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setSellers(settings.sellers.filter((_, i) => i !== index))}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="glass-button"
+            onClick={() => setSellers([...settings.sellers, { vatNumber: '', expense: '', inputVat: '', payable: '' }])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Seller
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={!canSave || saveMutation.isPending}>
+            {editingId === null && <Plus className="w-4 h-4 mr-2" />}
+            {editingId === null ? 'Create Profile' : 'Save Profile'}
+          </Button>
+          {editingId !== null && (
+            <Button type="button" variant="ghost" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
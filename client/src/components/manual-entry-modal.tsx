@@ -1,17 +1,21 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { InsertScannedQR } from "@shared/schema";
+import { AMOUNT_PATTERN, ScannedQRInput } from "@shared/schema";
+import { parseInvoiceTimestamp } from "@shared/invoice-date";
+import { validateVatNumber, VAT_NUMBER_ERROR_MESSAGES } from "@shared/vat-number";
+import { DEFAULT_AMOUNT_RULES, type AmountRuleOptions } from "@shared/invoice-rules";
 import { PlusCircle, X } from "lucide-react";
 
 interface ManualEntryModalProps {
@@ -21,24 +25,39 @@ interface ManualEntryModalProps {
   onSuccess?: () => void;
 }
 
-const manualEntrySchema = z.object({
+// The total check uses the server's rounding tolerance
+const manualEntrySchema = (tolerance: number) => z.object({
   sellerName: z.string().min(1, "Seller name is required"),
-  vatNumber: z.string().min(1, "VAT number is required"),
+  vatNumber: z.string().trim().superRefine((val, ctx) => {
+    const error = validateVatNumber(val);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: VAT_NUMBER_ERROR_MESSAGES[error] });
+    }
+  }),
   invoiceNumber: z.string().min(1, "Invoice number is required"),
-  invoiceDate: z.string().min(1, "Invoice date is required"),
-  subtotal: z.string().min(1, "Subtotal is required").refine((val) => !isNaN(Number(val)) && Number(val) >= 0, "Must be a valid positive number"),
-  vatAmount: z.string().min(1, "VAT amount is required").refine((val) => !isNaN(Number(val)) && Number(val) >= 0, "Must be a valid positive number"),
-  totalAmount: z.string().min(1, "Total amount is required").refine((val) => !isNaN(Number(val)) && Number(val) >= 0, "Must be a valid positive number"),
-});
+  invoiceDate: z.string().min(1, "Invoice date is required").refine((val) => parseInvoiceTimestamp(val) !== null, "Must be a valid date"),
+  subtotal: z.string().min(1, "Subtotal is required").refine((val) => AMOUNT_PATTERN.test(val.trim()) && Number(val) >= 0, "Must be a positive amount with up to 2 decimals"),
+  vatAmount: z.string().min(1, "VAT amount is required").refine((val) => AMOUNT_PATTERN.test(val.trim()) && Number(val) >= 0, "Must be a positive amount with up to 2 decimals"),
+  totalAmount: z.string().min(1, "Total amount is required").refine((val) => AMOUNT_PATTERN.test(val.trim()) && Number(val) >= 0, "Must be a positive amount with up to 2 decimals"),
+  zeroRated: z.boolean(),
+}).refine(
+  (data) => Math.abs(Number(data.subtotal) + Number(data.vatAmount) - Number(data.totalAmount)) <= tolerance,
+  { message: "Subtotal plus VAT must equal the total", path: ["totalAmount"] },
+);
 
-type ManualEntryFormData = z.infer<typeof manualEntrySchema>;
+type ManualEntryFormData = z.infer<ReturnType<typeof manualEntrySchema>>;
 
 export default function ManualEntryModal({ isOpen, onClose, sessionId, onSuccess }: ManualEntryModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: amountRules = DEFAULT_AMOUNT_RULES } = useQuery<AmountRuleOptions>({
+    queryKey: ['/api/amount-rules'],
+  });
+  const schema = useMemo(() => manualEntrySchema(amountRules.tolerance), [amountRules.tolerance]);
+
   const form = useForm<ManualEntryFormData>({
-    resolver: zodResolver(manualEntrySchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       sellerName: "",
       vatNumber: "",
@@ -47,22 +66,30 @@ export default function ManualEntryModal({ isOpen, onClose, sessionId, onSuccess
       subtotal: "",
       vatAmount: "",
       totalAmount: "",
+      zeroRated: amountRules.zeroRated,
     },
   });
 
+  // The rules arrive after the first render; new entries start from the server's default
+  useEffect(() => {
+    form.resetField('zeroRated', { defaultValue: amountRules.zeroRated });
+  }, [form, amountRules.zeroRated]);
+
   const addManualEntryMutation = useMutation({
     mutationFn: async (data: ManualEntryFormData) => {
-      const qrRecord: InsertScannedQR = {
+      // Status and amount warnings are worked out by the server
+      const qrRecord: ScannedQRInput = {
         sessionId,
         rawData: `Manual Entry: ${data.invoiceNumber}`,
         sellerName: data.sellerName,
         vatNumber: data.vatNumber,
         invoiceNumber: data.invoiceNumber,
+        // Sent as typed; the server keeps its offset, or reads it as Saudi local time
         invoiceDate: data.invoiceDate,
         subtotal: data.subtotal,
         vatAmount: data.vatAmount,
         totalAmount: data.totalAmount,
-        status: 'valid',
+        zeroRated: data.zeroRated,
         isManualEntry: true,
         notes: null,
       };
@@ -137,7 +164,7 @@ export default function ManualEntryModal({ isOpen, onClose, sessionId, onSuccess
                 <FormItem>
                   <FormLabel className="text-sm font-medium text-foreground">VAT Number *</FormLabel>
                   <FormControl>
-                    <Input {...field} className="glass-input" placeholder="Enter VAT number" />
+                    <Input {...field} className="glass-input" placeholder="15 digits, e.g. 300000000000003" inputMode="numeric" maxLength={15} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -218,7 +245,23 @@ export default function ManualEntryModal({ isOpen, onClose, sessionId, onSuccess
               />
             </div>
 
-
+            <FormField
+              control={form.control}
+              name="zeroRated"
+              render={({ field }) => (
+                <FormItem className="flex items-center space-x-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <FormLabel className="text-sm font-normal text-foreground">
+                    Zero-rated or exempt supply (no VAT expected)
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
 
             <div className="flex gap-3 pt-4">
               <Button
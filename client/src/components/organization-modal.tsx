@@ -0,0 +1,293 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Users, UserPlus, Trash2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth, errorMessage } from '@/hooks/use-auth';
+import { NewMember, Organization, OrganizationDetails, PublicUser } from '@shared/schema';
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, Role } from '@shared/roles';
+
+interface OrganizationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const emptyMember: NewMember = { username: '', password: '', role: 'scanner' };
+
+function RoleSelect({ id, value, onChange, disabled }: {
+  id?: string;
+  value: string;
+  onChange: (role: Role) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={(role: Role) => onChange(role)} disabled={disabled}>
+      <SelectTrigger id={id} className="w-36">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function OrganizationModal({ isOpen, onClose }: OrganizationModalProps) {
+  const [name, setName] = useState<string | null>(null);
+  const [newMember, setNewMember] = useState<NewMember>(emptyMember);
+
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canManage = can('manage');
+
+  const { data: details, isLoading } = useQuery<OrganizationDetails>({
+    queryKey: ['/api/organization'],
+    queryFn: () => apiRequest('GET', '/api/organization').then(res => res.json()),
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: errorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async (newName: string): Promise<Organization> => {
+      const response = await apiRequest('PATCH', '/api/organization', { name: newName });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization'] });
+      setName(null);
+      toast({
+        title: "Organization Updated",
+        description: "The organization name has been saved",
+      });
+    },
+    onError: onError("Update Failed"),
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (member: NewMember): Promise<PublicUser> => {
+      const response = await apiRequest('POST', '/api/organization/members', member);
+      return response.json();
+    },
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization'] });
+      setNewMember(emptyMember);
+      toast({
+        title: "Member Added",
+        description: `${member.username} can now log in as ${ROLE_LABELS[member.role as Role]}`,
+      });
+    },
+    onError: onError("Member Not Added"),
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: Role }): Promise<PublicUser> => {
+      const response = await apiRequest('PATCH', `/api/organization/members/${id}`, { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization'] });
+    },
+    onError: onError("Role Not Changed"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/organization/members/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization'] });
+    },
+    onError: onError("Member Not Removed"),
+  });
+
+  const handleRemove = (member: PublicUser) => {
+    if (window.confirm(`Remove ${member.username}? Their account is deleted; their sessions stay with the organization.`)) {
+      removeMemberMutation.mutate(member.id);
+    }
+  };
+
+  const handleClose = () => {
+    setName(null);
+    setNewMember(emptyMember);
+    onClose();
+  };
+
+  const organizationName = name ?? details?.organization.name ?? '';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Users className="w-5 h-5 text-primary mr-3" />
+            Team
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !details ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="space-y-6">
+            <form
+              className="flex items-end gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (organizationName.trim()) renameMutation.mutate(organizationName.trim());
+              }}
+            >
+              <div className="flex-1">
+                <Label htmlFor="organization-name" className="text-sm font-medium text-gray-700">
+                  Organization
+                </Label>
+                <Input
+                  id="organization-name"
+                  value={organizationName}
+                  onChange={(e) => setName(e.target.value)}
+                  className="mt-1"
+                  disabled={!canManage}
+                />
+              </div>
+              {canManage && (
+                <Button type="submit" variant="outline" disabled={name === null || !name.trim() || renameMutation.isPending}>
+                  Save
+                </Button>
+              )}
+            </form>
+
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Members</h4>
+              <ul className="divide-y divide-white/10 glass-surface rounded-xl">
+                {details.members.map((member) => (
+                  <li key={member.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-foreground truncate">
+                        {member.username}
+                        {member.id === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {ROLE_DESCRIPTIONS[member.role as Role]}
+                      </div>
+                    </div>
+                    {canManage && member.id !== user?.id ? (
+                      <div className="flex items-center gap-2 shrink-0">
+                        <RoleSelect
+                          value={member.role}
+                          onChange={(role) => changeRoleMutation.mutate({ id: member.id, role })}
+                          disabled={changeRoleMutation.isPending}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="glass-button text-destructive hover:text-destructive-foreground p-2"
+                          onClick={() => handleRemove(member)}
+                          disabled={removeMemberMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground shrink-0">
+                        {ROLE_LABELS[member.role as Role]}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {canManage && (
+              <form
+                className="space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  addMemberMutation.mutate(newMember);
+                }}
+              >
+                <h4 className="font-medium text-gray-900">Add Member</h4>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="member-username" className="text-sm font-medium text-gray-700">
+                      Username
+                    </Label>
+                    <Input
+                      id="member-username"
+                      value={newMember.username}
+                      onChange={(e) => setNewMember({ ...newMember, username: e.target.value })}
+                      autoComplete="off"
+                      className="mt-1"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="member-password" className="text-sm font-medium text-gray-700">
+                      Password
+                    </Label>
+                    <Input
+                      id="member-password"
+                      type="password"
+                      value={newMember.password}
+                      onChange={(e) => setNewMember({ ...newMember, password: e.target.value })}
+                      autoComplete="new-password"
+                      className="mt-1"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="flex items-end justify-between gap-2">
+                  <div>
+                    <Label htmlFor="member-role" className="text-sm font-medium text-gray-700">
+                      Role
+                    </Label>
+                    <div className="mt-1">
+                      <RoleSelect
+                        id="member-role"
+                        value={newMember.role}
+                        onChange={(role) => setNewMember({ ...newMember, role })}
+                      />
+                    </div>
+                  </div>
+                  <Button type="submit" disabled={addMemberMutation.isPending}>
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    Add
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {ROLE_DESCRIPTIONS[newMember.role]}. Share the password with the new member.
+                </p>
+              </form>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
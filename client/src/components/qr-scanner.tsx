@@ -4,10 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Camera, Upload, Play, Square, AlertCircle, CheckCircle, Edit3, Flashlight, FlashlightOff } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { parseZATCAQR } from '@/lib/zatca-parser';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
-import { InsertScannedQR } from '@shared/schema';
+import { ScannedQR, ScannedQRInput } from '@shared/schema';
+import { formatInvoiceTimestamp } from '@shared/invoice-date';
 import ManualEntryModal from '@/components/manual-entry-modal';
 import QrScanner from 'qr-scanner';
 
@@ -20,7 +20,7 @@ interface QRScannerProps {
 export default function QRScanner({ sessionId, onScanSuccess, onClearHistory }: QRScannerProps) {
   const [scanMode, setScanMode] = useState<'camera' | 'upload'>('camera');
   const [isScanning, setIsScanning] = useState(false);
-  const [lastScanResult, setLastScanResult] = useState<any>(null);
+  const [lastScanResult, setLastScanResult] = useState<ScannedQR | null>(null);
   const [qrScannerInstance, setQrScannerInstance] = useState<QrScanner | null>(null);
   const [lastScannedData, setLastScannedData] = useState<string>('');
   const [scannedDataHistory, setScannedDataHistory] = useState<Set<string>>(new Set());
@@ -40,7 +40,7 @@ export default function QRScanner({ sessionId, onScanSuccess, onClearHistory }:
   const queryClient = useQueryClient();
 
   const addQRMutation = useMutation({
-    mutationFn: async (qrData: InsertScannedQR) => {
+    mutationFn: async (qrData: ScannedQRInput): Promise<ScannedQR> => {
       const response = await apiRequest('POST', '/api/qr-codes', qrData);
       return response.json();
     },
@@ -268,24 +268,16 @@ export default function QRScanner({ sessionId, onScanSuccess, onClearHistory }:
       return newSet;
     });
     
-    const parsedData = parseZATCAQR(qrData);
-    
-    const qrRecord: InsertScannedQR = {
+    // The server parses and validates the payload
+    const qrInput: ScannedQRInput = {
       sessionId,
       rawData: qrData,
-      status: parsedData ? 'valid' : 'invalid',
-      sellerName: parsedData?.sellerName || null,
-      vatNumber: parsedData?.vatNumber || null,
-      invoiceNumber: parsedData?.invoiceNumber || null,
-      invoiceDate: parsedData?.invoiceDate || null,
-      subtotal: parsedData?.subtotal?.toString() || null,
-      vatAmount: parsedData?.vatAmount?.toString() || null,
-      totalAmount: parsedData?.totalAmount?.toString() || null,
     };
 
     try {
-      await addQRMutation.mutateAsync(qrRecord);
+      const qrRecord = await addQRMutation.mutateAsync(qrInput);
       setLastScanResult(qrRecord);
+      const isValid = qrRecord.status === 'valid';
       
       // Temporarily stop the scanner to prevent immediate re-scanning
       if (qrScannerInstance && isScanning) {
@@ -299,13 +291,21 @@ export default function QRScanner({ sessionId, onScanSuccess, onClearHistory }:
       // Start cooldown period after successful scan
       startCooldown();
       
-      toast({
-        title: parsedData ? "✅ QR Code Scanned!" : "❌ Invalid QR Code",
-        description: parsedData 
-          ? `ZATCA QR code processed successfully. Scanning paused for 3 seconds.`
-          : "QR code is not in ZATCA format. Scanning paused for 3 seconds.",
-        variant: parsedData ? "default" : "destructive",
-      });
+      if (qrRecord.signatureStatus === 'failed') {
+        toast({
+          title: "⚠️ Signature Check Failed",
+          description: "The Phase 2 signature does not match the invoice hash. Review this invoice before approving it.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: isValid ? "✅ QR Code Scanned!" : "❌ Invalid QR Code",
+          description: isValid 
+            ? `ZATCA QR code processed successfully. Scanning paused for 3 seconds.`
+            : `${qrRecord.parseDiagnostics?.find(d => d.severity === 'error')?.message ?? 'QR code is not in ZATCA format'}. Scanning paused for 3 seconds.`,
+          variant: isValid ? "default" : "destructive",
+        });
+      }
     } catch (error: any) {
       // Remove from history if save failed
       setScannedDataHistory(prev => {
@@ -314,8 +314,14 @@ export default function QRScanner({ sessionId, onScanSuccess, onClearHistory }:
         return newSet;
       });
       
+      if (error?.message?.includes('423:')) {
+        toast({
+          title: "Session Locked",
+          description: "This session no longer accepts scans. Reopen it to continue.",
+          variant: "destructive",
+        });
       // Check if it's a duplicate QR code error (409 status)
-      if (error?.message?.includes('409:') || error?.message?.includes('Duplicate QR code')) {
+      } else if (error?.message?.includes('409:') || error?.message?.includes('Duplicate QR code')) {
         toast({
           title: "QR Code Already Scanned",
           description: "This QR code has already been scanned in this session.",
@@ -666,7 +672,7 @@ export default function QRScanner({ sessionId, onScanSuccess, onClearHistory }:
               {lastScanResult.invoiceDate && (
                 <div className="flex items-center gap-3">
                   <span className="text-sm text-muted-foreground">Date:</span>
-                  <span className="font-medium text-foreground">{lastScanResult.invoiceDate}</span>
+                  <span className="font-medium text-foreground">{formatInvoiceTimestamp(lastScanResult.invoiceDate, lastScanResult.invoiceTimezone)}</span>
                 </div>
               )}
             </div>
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { ScannedQR, ScannedQREdit } from '@shared/schema';
+import { toInvoiceTimestampText } from '@shared/invoice-date';
+
+interface RecordEditFormProps {
+  qr: ScannedQR;
+  onDone: () => void;
+}
+
+type TextField = Exclude<keyof ScannedQREdit, 'zeroRated' | 'notes'>;
+
+const TEXT_FIELDS: { key: TextField; label: string; placeholder?: string }[] = [
+  { key: 'sellerName', label: 'Seller Name' },
+  { key: 'vatNumber', label: 'VAT Number', placeholder: '3XXXXXXXXXXXXX3' },
+  { key: 'invoiceNumber', label: 'Invoice Number' },
+  { key: 'invoiceDate', label: 'Invoice Date', placeholder: '2024-05-01T10:15:00+03:00' },
+  { key: 'subtotal', label: 'Subtotal (SAR)', placeholder: '0.00' },
+  { key: 'vatAmount', label: 'VAT Amount (SAR)', placeholder: '0.00' },
+  { key: 'totalAmount', label: 'Total Amount (SAR)', placeholder: '0.00' },
+];
+
+const toForm = (qr: ScannedQR): Record<TextField | 'notes', string> => ({
+  sellerName: qr.sellerName ?? '',
+  vatNumber: qr.vatNumber ?? '',
+  invoiceNumber: qr.invoiceNumber ?? '',
+  invoiceDate: toInvoiceTimestampText(qr.invoiceDate, qr.invoiceTimezone) ?? '',
+  subtotal: qr.subtotal ?? '',
+  vatAmount: qr.vatAmount ?? '',
+  totalAmount: qr.totalAmount ?? '',
+  notes: qr.notes ?? '',
+});
+
+// Reads the first validation message out of an apiRequest error
+function errorMessage(error: unknown): string | null {
+  const text = error instanceof Error ? error.message.replace(/^\d+:\s*/, '') : '';
+  try {
+    return JSON.parse(text).error?.issues?.[0]?.message ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export default function RecordEditForm({ qr, onDone }: RecordEditFormProps) {
+  const [form, setForm] = useState(() => toForm(qr));
+  const [zeroRated, setZeroRated] = useState(qr.zeroRated ?? false);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const editMutation = useMutation({
+    mutationFn: async (edit: ScannedQREdit): Promise<ScannedQR> => {
+      const response = await apiRequest('PATCH', `/api/qr-codes/${qr.id}`, edit);
+      return response.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', updated.sessionId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', updated.id, 'history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', updated.sessionId, 'stats'] });
+      toast({
+        title: "Record Updated",
+        description: "Your changes have been saved",
+      });
+      onDone();
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: errorMessage(error) ?? "Could not save the record. Please check the values.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Blank inputs clear the field; the server keeps only real changes
+    const blankToNull = (value: string) => value.trim() || null;
+    editMutation.mutate({
+      sellerName: blankToNull(form.sellerName),
+      vatNumber: blankToNull(form.vatNumber),
+      invoiceNumber: blankToNull(form.invoiceNumber),
+      invoiceDate: blankToNull(form.invoiceDate),
+      subtotal: blankToNull(form.subtotal),
+      vatAmount: blankToNull(form.vatAmount),
+      totalAmount: blankToNull(form.totalAmount),
+      zeroRated,
+      notes: blankToNull(form.notes),
+    });
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+          <div key={key}>
+            <Label htmlFor={`edit-${key}`} className="text-sm font-medium text-gray-700">
+              {label}
+            </Label>
+            <Input
+              id={`edit-${key}`}
+              value={form[key]}
+              onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+              placeholder={placeholder}
+              className="mt-1"
+            />
+          </div>
+        ))}
+        <div className="flex items-center space-x-2 sm:pt-6">
+          <Checkbox
+            id="edit-zero-rated"
+            checked={zeroRated}
+            onCheckedChange={(checked) => setZeroRated(checked as boolean)}
+          />
+          <Label htmlFor="edit-zero-rated" className="text-sm text-gray-700">
+            Zero-rated or exempt supply
+          </Label>
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="edit-notes" className="text-sm font-medium text-gray-700">
+          Notes
+        </Label>
+        <Textarea
+          id="edit-notes"
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          rows={3}
+          className="mt-1"
+        />
+      </div>
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={editMutation.isPending}>
+          Save Changes
+        </Button>
+      </div>
+    </form>
+  );
+}
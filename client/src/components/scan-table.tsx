@@ -1,34 +1,62 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { 
   Trash2, 
   FileSpreadsheet, 
   Eye, 
   CheckCircle, 
   XCircle,
+  ShieldCheck,
+  ShieldAlert,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  ArrowUpDown,
+  Copy,
+  AlertTriangle,
+  ArrowRightLeft,
+  FolderInput,
+  Split,
+  ArchiveRestore
 } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { ScannedQR } from '@shared/schema';
-import { useToast } from '@/hooks/use-toast';
+import { getInvoiceNumberSource, INVOICE_NUMBER_SOURCE_LABELS } from '@shared/invoice-number';
+import { getInvoiceDay, toInvoiceWallClock } from '@shared/invoice-date';
+import { VAT_NUMBER_ERROR_MESSAGES, type VatNumberError } from '@shared/vat-number';
+import { AMOUNT_FLAG_MESSAGES } from '@shared/invoice-rules';
+import { useTrash } from '@/hooks/use-trash';
+import { useAuth } from '@/hooks/use-auth';
+import TransferModal, { TransferMode } from '@/components/transfer-modal';
+import TrashModal from '@/components/trash-modal';
 
 interface ScanTableProps {
   sessionId: string;
+  // Locked and archived sessions can be viewed and exported but not changed
+  readOnly?: boolean;
   onExport: (selectedIds: number[]) => void;
   onViewDetails: (qr: ScannedQR) => void;
 }
 
-export default function ScanTable({ sessionId, onExport, onViewDetails }: ScanTableProps) {
+export default function ScanTable({ sessionId, readOnly = false, onExport, onViewDetails }: ScanTableProps) {
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [currentPage, setCurrentPage] = useState(1);
+  const [dateSort, setDateSort] = useState<'scanned' | 'asc' | 'desc'>('scanned');
+  const [transferMode, setTransferMode] = useState<TransferMode | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
   const itemsPerPage = 10;
   
-  const { toast } = useToast();
+  const { showUndoToast } = useTrash(sessionId);
+  const { can } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: qrCodes = [], isLoading } = useQuery({
@@ -38,31 +66,29 @@ export default function ScanTable({ sessionId, onExport, onViewDetails }: ScanTa
   });
 
   const deleteQRMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest('DELETE', `/api/qr-codes/${id}`);
+    mutationFn: async (id: number): Promise<{ ids: number[] }> => {
+      const response = await apiRequest('DELETE', `/api/qr-codes/${id}`);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: ({ ids }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', sessionId] });
       queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'stats'] });
-      toast({
-        title: "Record Deleted",
-        description: "QR code record has been removed",
-      });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'trash'] });
+      showUndoToast("Record Deleted", "The record was moved to the trash", ids);
     },
   });
 
   const clearAllMutation = useMutation({
-    mutationFn: async () => {
-      await apiRequest('DELETE', `/api/sessions/${sessionId}/qr-codes`);
+    mutationFn: async (): Promise<{ ids: number[] }> => {
+      const response = await apiRequest('DELETE', `/api/sessions/${sessionId}/qr-codes`);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: ({ ids }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', sessionId] });
       queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'trash'] });
       setSelectedIds(new Set());
-      toast({
-        title: "All Records Cleared",
-        description: "All QR code records have been removed",
-      });
+      showUndoToast("All Records Cleared", `${ids.length} record(s) were moved to the trash`, ids);
     },
   });
 
@@ -84,19 +110,18 @@ export default function ScanTable({ sessionId, onExport, onViewDetails }: ScanTa
     setSelectedIds(newSelected);
   };
 
+  // Deleted records go to the trash and the toast offers an undo, so no confirmation
   const handleDeleteRecord = async (id: number) => {
-    if (confirm('Are you sure you want to delete this record?')) {
-      await deleteQRMutation.mutateAsync(id);
-      setSelectedIds(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(id);
-        return newSet;
-      });
-    }
+    await deleteQRMutation.mutateAsync(id);
+    setSelectedIds(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(id);
+      return newSet;
+    });
   };
 
   const handleClearAll = async () => {
-    const confirmMessage = 'All unsaved changes will be deleted. Are you sure you want to clear all QR codes from this session?';
+    const confirmMessage = 'All QR codes in this session will be moved to the trash. Continue?';
     if (window.confirm(confirmMessage)) {
       await clearAllMutation.mutateAsync();
     }
@@ -106,11 +131,45 @@ export default function ScanTable({ sessionId, onExport, onViewDetails }: ScanTa
     onExport(Array.from(selectedIds));
   };
 
+  const handleToggleDateSort = () => {
+    setDateSort(prev => (prev === 'scanned' ? 'asc' : prev === 'asc' ? 'desc' : 'scanned'));
+    setCurrentPage(1);
+  };
+
+  // Records default to scan order; the Date header sorts by invoice timestamp
+  const sortedCodes = useMemo(() => {
+    if (dateSort === 'scanned') return qrCodes;
+    const direction = dateSort === 'asc' ? 1 : -1;
+    return [...qrCodes].sort((a: ScannedQR, b: ScannedQR) => {
+      if (!a.invoiceDate) return 1;
+      if (!b.invoiceDate) return -1;
+      return direction * (new Date(a.invoiceDate).getTime() - new Date(b.invoiceDate).getTime());
+    });
+  }, [qrCodes, dateSort]);
+
+  // Invoices from the same seller on the same day are likely duplicates
+  const sameDayCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    qrCodes.forEach((qr: ScannedQR) => {
+      const day = getInvoiceDay(qr.invoiceDate, qr.invoiceTimezone);
+      if (qr.vatNumber && day) {
+        const key = `${qr.vatNumber}|${day}`;
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    });
+    return counts;
+  }, [qrCodes]);
+
+  const hasSameDayDuplicate = (qr: ScannedQR) => {
+    const day = getInvoiceDay(qr.invoiceDate, qr.invoiceTimezone);
+    return !!qr.vatNumber && !!day && (sameDayCounts.get(`${qr.vatNumber}|${day}`) || 0) > 1;
+  };
+
   // Pagination
-  const totalPages = Math.ceil(qrCodes.length / itemsPerPage);
+  const totalPages = Math.ceil(sortedCodes.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
-  const currentItems = qrCodes.slice(startIndex, endIndex);
+  const currentItems = sortedCodes.slice(startIndex, endIndex);
 
   const progressPercentage = qrCodes.length > 0 
     ? Math.round((qrCodes.filter((qr: ScannedQR) => qr.status === 'valid').length / qrCodes.length) * 100)
@@ -142,25 +201,62 @@ export default function ScanTable({ sessionId, onExport, onViewDetails }: ScanTa
               Scanned QR Codes
             </h2>
             <div className="flex flex-col sm:flex-row gap-2 sm:space-x-2">
+              {!readOnly && can('edit') && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="glass-button w-full sm:w-auto">
+                      <ArrowRightLeft className="w-4 h-4 mr-2" />
+                      Organize
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem disabled={selectedIds.size === 0} onSelect={() => setTransferMode('move')}>
+                      <FolderInput className="w-4 h-4 mr-2" />
+                      Move selected ({selectedIds.size}) to session...
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setTransferMode('merge')}>
+                      <ArrowRightLeft className="w-4 h-4 mr-2" />
+                      Merge another session into this one...
+                    </DropdownMenuItem>
+                    <DropdownMenuItem disabled={qrCodes.length === 0} onSelect={() => setTransferMode('split')}>
+                      <Split className="w-4 h-4 mr-2" />
+                      Split session...
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              {can('edit') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleClearAll}
+                  disabled={qrCodes.length === 0 || readOnly}
+                  className="glass-button text-destructive hover:text-destructive-foreground hover:bg-destructive/20 w-full sm:w-auto"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Clear All
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
-                onClick={handleClearAll}
-                disabled={qrCodes.length === 0}
-                className="glass-button text-destructive hover:text-destructive-foreground hover:bg-destructive/20 w-full sm:w-auto"
-              >
-                <Trash2 className="w-4 h-4 mr-2" />
-                Clear All
-              </Button>
-              <Button
-                size="sm"
-                onClick={handleExport}
-                disabled={qrCodes.length === 0}
-                className="bg-primary hover:bg-primary/90 text-primary-foreground shadow-lg shadow-primary/20 w-full sm:w-auto"
+                onClick={() => setShowTrash(true)}
+                className="glass-button w-full sm:w-auto"
               >
-                <FileSpreadsheet className="w-4 h-4 mr-2" />
-                Export Excel
+                <ArchiveRestore className="w-4 h-4 mr-2" />
+                Trash
               </Button>
+              {can('export') && (
+                <Button
+                  size="sm"
+                  onClick={handleExport}
+                  disabled={qrCodes.length === 0}
+                  className="bg-primary hover:bg-primary/90 text-primary-foreground shadow-lg shadow-primary/20 w-full sm:w-auto"
+                >
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -200,7 +296,18 @@ export default function ScanTable({ sessionId, onExport, onViewDetails }: ScanTa
                   VAT Number
                 </th>
                 <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                  Date
+                  Invoice #
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  <button
+                    type="button"
+                    onClick={handleToggleDateSort}
+                    className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-foreground"
+                    title={dateSort === 'scanned' ? 'Sort by invoice date' : dateSort === 'asc' ? 'Oldest first' : 'Newest first'}
+                  >
+                    Date
+                    <ArrowUpDown className={`w-3 h-3 ${dateSort === 'scanned' ? '' : 'text-primary'}`} />
+                  </button>
                 </th>
                 <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                   Amount
@@ -216,7 +323,7 @@ export default function ScanTable({ sessionId, onExport, onViewDetails }: ScanTa
             <tbody className="glass-surface divide-y divide-white/10">
               {currentItems.length === 0 ? (
                 <tr>
-                  <td colSpan={8} className="px-4 sm:px-6 py-12 text-center text-muted-foreground">
+                  <td colSpan={9} className="px-4 sm:px-6 py-12 text-center text-muted-foreground">
                     No QR codes scanned yet. Start scanning to see results here.
                   </td>
                 </tr>
@@ -243,18 +350,68 @@ export default function ScanTable({ sessionId, onExport, onViewDetails }: ScanTa
                           <><XCircle className="w-3 h-3 mr-1" />Invalid</>
                         )}
                       </Badge>
+                      {qr.signatureStatus === 'verified' && (
+                        <span title="Signature verified" className="inline-flex">
+                          <ShieldCheck className="inline w-4 h-4 ml-2 text-success" />
+                        </span>
+                      )}
+                      {qr.signatureStatus === 'failed' && (
+                        <span title="Signature check failed" className="inline-flex">
+                          <ShieldAlert className="inline w-4 h-4 ml-2 text-destructive" />
+                        </span>
+                      )}
                     </td>
                     <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
                       <span className="auto-dir">{qr.sellerName || '-'}</span>
                     </td>
                     <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
-                      {qr.vatNumber || '-'}
+                      <div className="flex items-center gap-2">
+                        {qr.vatNumber || '-'}
+                        {qr.vatNumberError && (
+                          <span title={VAT_NUMBER_ERROR_MESSAGES[qr.vatNumberError as VatNumberError]} className="inline-flex">
+                            <AlertTriangle className="w-4 h-4 text-warning" />
+                          </span>
+                        )}
+                      </div>
                     </td>
                     <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
-                      {qr.invoiceDate || '-'}
+                      {getInvoiceNumberSource(qr) === 'missing' ? (
+                        <Badge variant="outline" className="bg-warning/10 text-warning border-warning/30">
+                          Missing
+                        </Badge>
+                      ) : (
+                        <div>
+                          <div className="text-foreground">{qr.invoiceNumber}</div>
+                          <div className="text-xs">{INVOICE_NUMBER_SOURCE_LABELS[getInvoiceNumberSource(qr)]}</div>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                      {qr.invoiceDate ? (
+                        <div className="flex items-center gap-2">
+                          <div>
+                            <div>{getInvoiceDay(qr.invoiceDate, qr.invoiceTimezone)}</div>
+                            <div className="text-xs">
+                              {toInvoiceWallClock(qr.invoiceDate, qr.invoiceTimezone).toISOString().slice(11, 16)}
+                            </div>
+                          </div>
+                          {hasSameDayDuplicate(qr) && (
+                            <span title="Another invoice from this seller on the same day" className="inline-flex">
+                              <Copy className="w-4 h-4 text-warning" />
+                            </span>
+                          )}
+                        </div>
+                      ) : '-'}
                     </td>
                     <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-primary">
-                      {qr.totalAmount ? `${parseFloat(qr.totalAmount).toFixed(2)} SAR` : '-'}
+                      <div className="flex items-center gap-2">
+                        {qr.totalAmount ? `${parseFloat(qr.totalAmount).toFixed(2)} SAR` : '-'}
+                        {qr.amountFlags && qr.amountFlags.length > 0 && (
+                          <span title={qr.amountFlags.map(flag => AMOUNT_FLAG_MESSAGES[flag]).join('\n')} className="inline-flex">
+                            <AlertTriangle className="w-4 h-4 text-warning" />
+                          </span>
+                        )}
+                      </div>
                     </td>
                     <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
                       {qr.vatAmount ? `${parseFloat(qr.vatAmount).toFixed(2)} SAR` : '-'}
@@ -269,15 +426,17 @@ export default function ScanTable({ sessionId, onExport, onViewDetails }: ScanTa
                         >
                           <Eye className="w-4 h-4" />
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDeleteRecord(qr.id)}
-                          className="glass-button text-destructive hover:text-destructive-foreground p-2"
-                          disabled={deleteQRMutation.isPending}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                        {can('edit') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteRecord(qr.id)}
+                            className="glass-button text-destructive hover:text-destructive-foreground p-2"
+                            disabled={deleteQRMutation.isPending || readOnly}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -319,6 +478,21 @@ export default function ScanTable({ sessionId, onExport, onViewDetails }: ScanTa
             </div>
           </div>
         )}
+
+        <TrashModal
+          isOpen={showTrash}
+          onClose={() => setShowTrash(false)}
+          sessionId={sessionId}
+          readOnly={readOnly}
+        />
+
+        <TransferModal
+          mode={transferMode}
+          onClose={() => setTransferMode(null)}
+          sessionId={sessionId}
+          selectedIds={Array.from(selectedIds)}
+          onComplete={() => setSelectedIds(new Set())}
+        />
     </div>
   );
 }
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Pencil } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { ScanSession, UpdateScanSession } from '@shared/schema';
+
+interface SessionDetailsProps {
+  sessionId: string;
+  session?: ScanSession;
+  readOnly?: boolean;
+}
+
+type DetailsForm = Record<keyof UpdateScanSession, string>;
+
+const toForm = (session?: ScanSession): DetailsForm => ({
+  name: session?.name ?? '',
+  client: session?.client ?? '',
+  taxPeriod: session?.taxPeriod ?? '',
+  costCenter: session?.costCenter ?? '',
+  notes: session?.notes ?? '',
+});
+
+const FIELDS: { key: Exclude<keyof DetailsForm, 'notes'>; label: string; placeholder: string }[] = [
+  { key: 'name', label: 'Session Name', placeholder: 'May supplier invoices' },
+  { key: 'client', label: 'Client / Company', placeholder: 'Al Noor Trading Co.' },
+  { key: 'taxPeriod', label: 'Tax Period', placeholder: '2024-Q2' },
+  { key: 'costCenter', label: 'Cost Center', placeholder: 'CC-100' },
+];
+
+export default function SessionDetails({ sessionId, session, readOnly = false }: SessionDetailsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<DetailsForm>(toForm(session));
+
+  const { toast } = useToast();
+  // Roles without edit rights, and locked sessions, show the details read-only
+  const canEdit = useAuth().can('edit') && !readOnly;
+  const queryClient = useQueryClient();
+
+  const updateSessionMutation = useMutation({
+    mutationFn: async (details: DetailsForm): Promise<ScanSession> => {
+      const response = await apiRequest('PATCH', `/api/sessions/${sessionId}`, details);
+      return response.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/sessions', sessionId], updated);
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'], exact: true });
+      setIsOpen(false);
+      toast({
+        title: "Session Updated",
+        description: "Session details have been saved",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Update Failed",
+        description: "Could not save the session details",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    // Start from the saved values every time the editor opens
+    if (open) setForm(toForm(session));
+    setIsOpen(open);
+  };
+
+  const summary = [session?.client, session?.taxPeriod, session?.costCenter].filter(Boolean).join(' · ');
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="glass-surface px-3 py-1.5 sm:px-4 sm:py-2 rounded-xl w-full sm:w-auto text-left flex items-center gap-3 hover:bg-white/40 transition-colors"
+          disabled={!session}
+        >
+          <div className="min-w-0">
+            <div className="text-xs sm:text-sm font-semibold text-primary truncate max-w-[16rem]">
+              {session?.name || 'Untitled session'}
+            </div>
+            <div className="text-xs text-muted-foreground truncate max-w-[16rem]">
+              {summary || 'Add client and tax period'}
+            </div>
+          </div>
+          {canEdit && <Pencil className="w-3.5 h-3.5 text-muted-foreground shrink-0" />}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateSessionMutation.mutate(form);
+          }}
+        >
+          {FIELDS.map(({ key, label, placeholder }) => (
+            <div key={key}>
+              <Label htmlFor={`session-${key}`} className="text-sm font-medium text-gray-700">
+                {label}
+              </Label>
+              <Input
+                id={`session-${key}`}
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                placeholder={placeholder}
+                className="mt-1"
+                disabled={!canEdit}
+              />
+            </div>
+          ))}
+          <div>
+            <Label htmlFor="session-notes" className="text-sm font-medium text-gray-700">
+              Notes
+            </Label>
+            <Textarea
+              id="session-notes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={3}
+              className="mt-1"
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="flex space-x-2">
+            <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => setIsOpen(false)}>
+              {canEdit ? 'Cancel' : 'Close'}
+            </Button>
+            {canEdit && (
+              <Button type="submit" size="sm" className="flex-1" disabled={updateSessionMutation.isPending}>
+                Save
+              </Button>
+            )}
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,135 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { FolderOpen, Plus } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { SessionSummary } from '@shared/schema';
+import { SESSION_STATUS_LABELS, SessionStatus } from '@shared/session-status';
+
+interface SessionPickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentSessionId: string;
+  onOpenSession: (sessionId: string) => void;
+  onNewSession: () => void;
+}
+
+export default function SessionPicker({ isOpen, onClose, currentSessionId, onOpenSession, onNewSession }: SessionPickerProps) {
+  const { data: sessions = [], isLoading } = useQuery<SessionSummary[]>({
+    queryKey: ['/api/sessions'],
+    queryFn: () => apiRequest('GET', '/api/sessions').then(res => res.json()),
+    enabled: isOpen,
+    // Scans happen elsewhere in the app, so refresh the figures on every open
+    staleTime: 0,
+  });
+
+  const handleOpen = (sessionId: string) => {
+    onOpenSession(sessionId);
+    onClose();
+  };
+
+  const handleNew = () => {
+    onNewSession();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FolderOpen className="w-5 h-5 text-primary mr-3" />
+            Scan Sessions
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-between items-center gap-3">
+            <p className="text-gray-600 text-sm">
+              Reopen a previous session to continue scanning or export it again.
+            </p>
+            <Button size="sm" onClick={handleNew}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Session
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading sessions...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No sessions yet</p>
+          ) : (
+            <ul className="space-y-2">
+              {sessions.map((session) => {
+                const isCurrent = session.sessionId === currentSessionId;
+                return (
+                  <li
+                    key={session.sessionId}
+                    className="glass-surface rounded-xl p-3 sm:p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-foreground truncate">
+                          {session.name || `Started ${new Date(session.createdAt).toLocaleString()}`}
+                        </span>
+                        {isCurrent && <Badge variant="secondary">Current</Badge>}
+                        {session.status !== 'open' && (
+                          <Badge variant="outline">{SESSION_STATUS_LABELS[session.status as SessionStatus]}</Badge>
+                        )}
+                      </div>
+                      {(session.client || session.taxPeriod) && (
+                        <div className="text-sm text-muted-foreground truncate">
+                          {[session.client, session.taxPeriod].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                      <div className="text-xs text-muted-foreground font-mono truncate">{session.sessionId}</div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {session.lastScannedAt
+                          ? `Last scan ${new Date(session.lastScannedAt).toLocaleString()}`
+                          : 'No scans yet'}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4 shrink-0">
+                      <dl className="grid grid-cols-4 gap-3 text-center text-xs">
+                        <div>
+                          <dt className="text-muted-foreground">Scans</dt>
+                          <dd className="font-semibold text-primary">{session.stats.totalScans}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-muted-foreground">Valid</dt>
+                          <dd className="font-semibold text-success">{session.stats.validScans}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-muted-foreground">SAR</dt>
+                          <dd className="font-semibold text-warning">{session.stats.totalAmount.toFixed(0)}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-muted-foreground">Errors</dt>
+                          <dd className="font-semibold text-destructive">{session.stats.errors}</dd>
+                        </div>
+                      </dl>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleOpen(session.sessionId)}
+                        disabled={isCurrent}
+                      >
+                        Open
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
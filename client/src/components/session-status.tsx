@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Lock, Archive, LockOpen, History } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import StatusHistory from '@/components/status-history';
+import { ScanSession, SessionStatusChangeRequest } from '@shared/schema';
+import { canChangeSessionStatus, SESSION_STATUS_LABELS, SessionStatus } from '@shared/session-status';
+
+interface SessionStatusProps {
+  session?: ScanSession;
+}
+
+const STATUS_BADGE_CLASSES: Record<SessionStatus, string> = {
+  open: 'bg-green-100 text-green-800 border-green-200',
+  locked: 'bg-amber-100 text-amber-800 border-amber-200',
+  archived: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+export default function SessionStatusControls({ session }: SessionStatusProps) {
+  const [showReopenDialog, setShowReopenDialog] = useState(false);
+  const [reopenReason, setReopenReason] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const changeStatusMutation = useMutation({
+    mutationFn: async (change: SessionStatusChangeRequest): Promise<ScanSession> => {
+      const response = await apiRequest('POST', `/api/sessions/${session!.sessionId}/status`, change);
+      return response.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/sessions', updated.sessionId], updated);
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'], exact: true });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', updated.sessionId, 'status-history'] });
+      setShowReopenDialog(false);
+      setReopenReason('');
+      toast({
+        title: `Session ${SESSION_STATUS_LABELS[updated.status as SessionStatus]}`,
+        description: updated.status === 'open'
+          ? 'The session accepts new scans and changes again'
+          : 'Scans in this session can no longer be added, changed or deleted',
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Status Change Failed",
+        description: "The session status could not be changed",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!session) return null;
+
+  const status = session.status as SessionStatus;
+
+  const handleLock = () => {
+    if (window.confirm('Submit and lock this session? Scans can no longer be added, edited or deleted until it is reopened.')) {
+      changeStatusMutation.mutate({ status: 'locked' });
+    }
+  };
+
+  const handleArchive = () => {
+    changeStatusMutation.mutate({ status: 'archived' });
+  };
+
+  return (
+    <div className="flex items-center gap-2 w-full sm:w-auto">
+      <Badge variant="outline" className={STATUS_BADGE_CLASSES[status]}>
+        {SESSION_STATUS_LABELS[status]}
+      </Badge>
+      {can('lock') && canChangeSessionStatus(status, 'locked') && (
+        <Button variant="ghost" size="sm" className="glass-button" onClick={handleLock} disabled={changeStatusMutation.isPending}>
+          <Lock className="w-4 h-4 mr-2" />
+          Submit & Lock
+        </Button>
+      )}
+      {can('lock') && canChangeSessionStatus(status, 'archived') && (
+        <Button variant="ghost" size="sm" className="glass-button" onClick={handleArchive} disabled={changeStatusMutation.isPending}>
+          <Archive className="w-4 h-4 mr-2" />
+          Archive
+        </Button>
+      )}
+      {can('lock') && canChangeSessionStatus(status, 'open') && (
+        <Button variant="ghost" size="sm" className="glass-button" onClick={() => setShowReopenDialog(true)} disabled={changeStatusMutation.isPending}>
+          <LockOpen className="w-4 h-4 mr-2" />
+          Reopen
+        </Button>
+      )}
+
+      <Button variant="ghost" size="sm" className="glass-button" onClick={() => setShowHistory(true)}>
+        <History className="w-4 h-4 mr-2" />
+        History
+      </Button>
+
+      <Dialog open={showHistory} onOpenChange={setShowHistory}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <History className="w-5 h-5 text-primary mr-3" />
+              Status History
+            </DialogTitle>
+          </DialogHeader>
+          {showHistory && <StatusHistory sessionId={session.sessionId} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showReopenDialog} onOpenChange={setShowReopenDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <LockOpen className="w-5 h-5 text-primary mr-3" />
+              Reopen Session
+            </DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              changeStatusMutation.mutate({ status: 'open', reason: reopenReason });
+            }}
+          >
+            <p className="text-gray-600 text-sm">
+              Reopening a {SESSION_STATUS_LABELS[status].toLowerCase()} session is recorded in its status history.
+            </p>
+            <div>
+              <Label htmlFor="reopen-reason" className="text-sm font-medium text-gray-700">
+                Reason *
+              </Label>
+              <Textarea
+                id="reopen-reason"
+                value={reopenReason}
+                onChange={(e) => setReopenReason(e.target.value)}
+                placeholder="e.g. Supplier sent a corrected invoice"
+                rows={3}
+                className="mt-1"
+              />
+            </div>
+            <div className="flex space-x-3">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setShowReopenDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1" disabled={!reopenReason.trim() || changeStatusMutation.isPending}>
+                Reopen
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
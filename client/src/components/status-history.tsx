@@ -0,0 +1,56 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { OrganizationDetails, SessionStatusChange } from '@shared/schema';
+import { SESSION_STATUS_LABELS, SessionStatus } from '@shared/session-status';
+
+const statusLabel = (status: string) => SESSION_STATUS_LABELS[status as SessionStatus] ?? status;
+
+export default function StatusHistory({ sessionId }: { sessionId: string }) {
+  const { data: changes = [], isLoading } = useQuery<SessionStatusChange[]>({
+    queryKey: ['/api/sessions', sessionId, 'status-history'],
+    queryFn: () => apiRequest('GET', `/api/sessions/${sessionId}/status-history`).then(res => res.json()),
+    staleTime: 0,
+  });
+  // Changes name the member by id; deleted members are no longer listed
+  const { data: details } = useQuery<OrganizationDetails>({
+    queryKey: ['/api/organization'],
+    queryFn: () => apiRequest('GET', '/api/organization').then(res => res.json()),
+  });
+  const members = new Map(details?.members.map(member => [member.id, member.username]));
+  const changedBy = (change: SessionStatusChange) =>
+    change.changedBy === null ? 'Unknown' : members.get(change.changedBy) ?? 'Former member';
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">The session has not been locked, archived or reopened yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-600">
+            <th className="py-1 pr-3 font-medium">Change</th>
+            <th className="py-1 pr-3 font-medium">Reason</th>
+            <th className="py-1 pr-3 font-medium">Changed By</th>
+            <th className="py-1 font-medium">When</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {changes.map((change) => (
+            <tr key={change.id} className="align-top">
+              <td className="py-1 pr-3 font-medium whitespace-nowrap">
+                {statusLabel(change.fromStatus)} → {statusLabel(change.toStatus)}
+              </td>
+              <td className="py-1 pr-3 break-all auto-dir">{change.reason ?? '-'}</td>
+              <td className="py-1 pr-3">{changedBy(change)}</td>
+              <td className="py-1 whitespace-nowrap">{new Date(change.changedAt).toLocaleString()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
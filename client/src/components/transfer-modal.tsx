@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowRightLeft, AlertTriangle, CheckCircle } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { errorMessage } from '@/hooks/use-auth';
+import { SessionSummary, SplitReport, TransferConflict, TransferReport } from '@shared/schema';
+
+export type TransferMode = 'move' | 'merge' | 'split';
+
+interface TransferModalProps {
+  mode: TransferMode | null;
+  onClose: () => void;
+  sessionId: string;
+  selectedIds: number[];
+  onComplete?: () => void;
+}
+
+const TITLES: Record<TransferMode, string> = {
+  move: 'Move Records',
+  merge: 'Merge Sessions',
+  split: 'Split Session',
+};
+
+const sessionLabel = (session: SessionSummary) =>
+  session.name || `Session started ${new Date(session.createdAt).toLocaleString()}`;
+
+function ConflictList({ conflicts }: { conflicts: TransferConflict[] }) {
+  if (conflicts.length === 0) return null;
+  return (
+    <div className="glass-surface rounded-xl p-3 border border-warning/30">
+      <div className="flex items-center gap-2 text-sm font-medium text-warning mb-2">
+        <AlertTriangle className="w-4 h-4" />
+        {conflicts.length} record(s) not moved
+      </div>
+      <ul className="space-y-1 text-xs text-muted-foreground max-h-40 overflow-y-auto">
+        {conflicts.map((conflict) => (
+          <li key={conflict.id}>
+            Record #{conflict.id}{conflict.sellerName ? ` (${conflict.sellerName})` : ''}:{' '}
+            {conflict.reason === 'duplicate'
+              ? `already scanned in the target session as record #${conflict.existingId}`
+              : 'not found'}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function TransferModal({ mode, onClose, sessionId, selectedIds, onComplete }: TransferModalProps) {
+  const [otherSessionId, setOtherSessionId] = useState('');
+  const [splitBy, setSplitBy] = useState<'date' | 'seller'>('date');
+  const [report, setReport] = useState<TransferReport | null>(null);
+  const [splitReport, setSplitReport] = useState<SplitReport | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [] } = useQuery<SessionSummary[]>({
+    queryKey: ['/api/sessions'],
+    queryFn: () => apiRequest('GET', '/api/sessions').then(res => res.json()),
+    enabled: mode === 'move' || mode === 'merge',
+    staleTime: 0,
+  });
+
+  // Records can only move between open sessions
+  const otherSessions = sessions.filter(s => s.sessionId !== sessionId && s.status === 'open');
+
+  const transferMutation = useMutation({
+    mutationFn: async (): Promise<TransferReport | SplitReport> => {
+      let response: Response;
+      if (mode === 'move') {
+        response = await apiRequest('POST', '/api/qr-codes/move', { ids: selectedIds, targetSessionId: otherSessionId });
+      } else if (mode === 'merge') {
+        response = await apiRequest('POST', `/api/sessions/${sessionId}/merge`, { sourceSessionId: otherSessionId });
+      } else {
+        response = await apiRequest('POST', `/api/sessions/${sessionId}/split`, { by: splitBy });
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      // Records changed in more than one session
+      queryClient.invalidateQueries({ queryKey: ['/api/qr-codes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      if ('sessions' in result) {
+        setSplitReport(result);
+      } else {
+        setReport(result);
+      }
+      onComplete?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Transfer Failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setOtherSessionId('');
+    setReport(null);
+    setSplitReport(null);
+    onClose();
+  };
+
+  const canSubmit = mode === 'split' || !!otherSessionId;
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ArrowRightLeft className="w-5 h-5 text-primary mr-3" />
+            {mode && TITLES[mode]}
+          </DialogTitle>
+        </DialogHeader>
+
+        {report || splitReport ? (
+          <div className="space-y-4">
+            {report && (
+              <div className="flex items-center gap-2 text-sm text-foreground">
+                <CheckCircle className="w-4 h-4 text-success" />
+                {report.moved.length} record(s) moved
+              </div>
+            )}
+            {report && <ConflictList conflicts={report.conflicts} />}
+            {splitReport && (
+              splitReport.sessions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  All records share the same {splitBy === 'date' ? 'invoice date' : 'seller'}; nothing was split.
+                </p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {splitReport.sessions.map((s) => (
+                    <li key={s.session.sessionId} className="flex justify-between gap-3">
+                      <span className="truncate">{s.session.name}</span>
+                      <span className="text-muted-foreground shrink-0">{s.moved.length} record(s)</span>
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+            {splitReport && splitReport.unassigned.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {splitReport.unassigned.length} record(s) without {splitBy === 'date' ? 'an invoice date' : 'a seller'} stayed in this session.
+              </p>
+            )}
+            <Button className="w-full" onClick={handleClose}>Done</Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-gray-600 text-sm">
+              {mode === 'move' && `Move ${selectedIds.length} selected record(s) to another open session.`}
+              {mode === 'merge' && 'Move every record of another session into this one.'}
+              {mode === 'split' && 'Move the records of this session into new sessions, one per group.'}
+              {mode !== 'split' && ' Records already scanned in the target session are skipped and listed.'}
+            </p>
+
+            {mode === 'split' ? (
+              <div>
+                <Label className="text-sm font-medium text-gray-700">Split By</Label>
+                <Select value={splitBy} onValueChange={(value: 'date' | 'seller') => setSplitBy(value)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="date">Invoice date</SelectItem>
+                    <SelectItem value="seller">Seller</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <Label className="text-sm font-medium text-gray-700">
+                  {mode === 'move' ? 'Target Session' : 'Merge From'}
+                </Label>
+                <Select value={otherSessionId} onValueChange={setOtherSessionId}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder={otherSessions.length ? 'Choose a session' : 'No other open sessions'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherSessions.map((s) => (
+                      <SelectItem key={s.sessionId} value={s.sessionId}>
+                        {sessionLabel(s)} ({s.stats.totalScans} scans)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex space-x-3">
+              <Button variant="outline" className="flex-1" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => transferMutation.mutate()}
+                disabled={!canSubmit || transferMutation.isPending}
+              >
+                {mode === 'split' ? 'Split' : mode === 'merge' ? 'Merge' : 'Move'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Trash2, RotateCcw } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useTrash } from '@/hooks/use-trash';
+import { useAuth } from '@/hooks/use-auth';
+import { TrashContents } from '@shared/schema';
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId: string;
+  readOnly?: boolean;
+}
+
+export default function TrashModal({ isOpen, onClose, sessionId, readOnly = false }: TrashModalProps) {
+  const { restoreMutation } = useTrash(sessionId);
+  const canRestore = useAuth().can('edit');
+
+  const { data: trash, isLoading } = useQuery<TrashContents>({
+    queryKey: ['/api/sessions', sessionId, 'trash'],
+    queryFn: () => apiRequest('GET', `/api/sessions/${sessionId}/trash`).then(res => res.json()),
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const records = trash?.records ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Trash2 className="w-5 h-5 text-destructive mr-3" />
+            Trash
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-gray-600 text-sm">
+            Deleted and cleared records stay here for {trash?.retentionDays ?? '...'} days before they are removed for good.
+            {readOnly && canRestore && ' Reopen the session to restore them.'}
+          </p>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : records.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">The trash is empty.</p>
+          ) : (
+            <ul className="divide-y divide-white/10 glass-surface rounded-xl">
+              {records.map((qr) => (
+                <li key={qr.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-foreground truncate auto-dir">
+                      {qr.sellerName || 'Unknown seller'}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {qr.invoiceNumber || 'No invoice number'}
+                      {qr.totalAmount && ` · ${parseFloat(qr.totalAmount).toFixed(2)} SAR`}
+                      {qr.deletedAt && ` · deleted ${new Date(qr.deletedAt).toLocaleString()}`}
+                    </div>
+                  </div>
+                  {canRestore && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="glass-button shrink-0"
+                      onClick={() => restoreMutation.mutate([qr.id])}
+                      disabled={readOnly || restoreMutation.isPending}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex space-x-3">
+            <Button variant="outline" className="flex-1" onClick={onClose}>
+              Close
+            </Button>
+            {canRestore && (
+              <Button
+                className="flex-1"
+                onClick={() => restoreMutation.mutate(records.map(qr => qr.id))}
+                disabled={readOnly || records.length === 0 || restoreMutation.isPending}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Restore All
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import { createContext, ReactNode, useContext } from 'react';
+import { useQuery, useMutation, UseMutationResult } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Credentials, PublicUser } from '@shared/schema';
+import { hasPermission, Permission } from '@shared/roles';
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  // Whether the user's role allows an action; the server enforces the same rules
+  can: (permission: Permission) => boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  registerMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// Reads the message out of an apiRequest error ("401: {...}")
+export function errorMessage(error: Error): string {
+  const text = error.message.replace(/^\d+:\s*/, '');
+  try {
+    const body = JSON.parse(text);
+    return body.error?.issues?.[0]?.message ?? body.message ?? text;
+  } catch {
+    return text;
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const can = (permission: Permission) => !!user && hasPermission(user.role, permission);
+
+  const onLoggedIn = (loggedIn: PublicUser) => {
+    // Nothing cached for a previous user may leak into this account
+    queryClient.clear();
+    queryClient.setQueryData(['/api/user'], loggedIn);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<PublicUser> => {
+      const response = await apiRequest('POST', '/api/login', credentials);
+      return response.json();
+    },
+    onSuccess: onLoggedIn,
+    onError: (error: Error) => {
+      toast({
+        title: "Login Failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<PublicUser> => {
+      const response = await apiRequest('POST', '/api/register', credentials);
+      return response.json();
+    },
+    onSuccess: onLoggedIn,
+    onError: (error: Error) => {
+      toast({
+        title: "Registration Failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Logout Failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, can, loginMutation, registerMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
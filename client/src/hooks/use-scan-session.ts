@@ -0,0 +1,47 @@
+import { useState, useCallback } from 'react';
+import { createSessionId } from '@shared/session-id';
+
+const STORAGE_KEY = 'zatscan.activeSessionId';
+
+function readStoredSessionId(key: string): string | null {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies)
+    return null;
+  }
+}
+
+function storeSessionId(key: string, sessionId: string) {
+  try {
+    window.localStorage.setItem(key, sessionId);
+  } catch {
+    // The session still works, it just won't be resumed after a reload
+  }
+}
+
+/**
+ * The session the scanner is working in. It is remembered in localStorage,
+ * per user, so a reload or a reopened tab resumes it instead of starting over.
+ */
+export function useScanSession(userId: number) {
+  const key = `${STORAGE_KEY}.${userId}`;
+  const [sessionId, setSessionId] = useState(() => {
+    const id = readStoredSessionId(key) ?? createSessionId();
+    storeSessionId(key, id);
+    return id;
+  });
+
+  const openSession = useCallback((id: string) => {
+    storeSessionId(key, id);
+    setSessionId(id);
+  }, [key]);
+
+  const startNewSession = useCallback(() => {
+    const id = createSessionId();
+    openSession(id);
+    return id;
+  }, [openSession]);
+
+  return { sessionId, openSession, startNewSession };
+}
@@ -0,0 +1,56 @@
+import { useCallback } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ToastAction } from '@/components/ui/toast';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { errorMessage } from '@/hooks/use-auth';
+import { RestoreReport } from '@shared/schema';
+
+/**
+ * Restoring records from a session's trash, shared by the trash dialog and
+ * the "Undo" action of the delete and clear toasts.
+ */
+export function useTrash(sessionId: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const restoreMutation = useMutation({
+    mutationFn: async (ids: number[]): Promise<RestoreReport> => {
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/trash/restore`, { ids });
+      return response.json();
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', sessionId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'trash'] });
+      toast({
+        title: "Records Restored",
+        description: report.conflicts.length > 0
+          ? `${report.restored.length} record(s) restored, ${report.conflicts.length} already scanned again and left in the trash`
+          : `${report.restored.length} record(s) restored`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Restore Failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Toast for records that were just moved to the trash
+  const showUndoToast = useCallback((title: string, description: string, ids: number[]) => {
+    toast({
+      title,
+      description,
+      action: ids.length > 0 ? (
+        <ToastAction altText="Undo" onClick={() => restoreMutation.mutate(ids)}>
+          Undo
+        </ToastAction>
+      ) : undefined,
+    });
+  }, [toast, restoreMutation.mutate]);
+
+  return { restoreMutation, showUndoToast };
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Redirect } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/use-auth';
+import Logo from '@/components/logo';
+
+function CredentialsForm({ mode, submitLabel, isPending, onSubmit }: {
+  mode: 'login' | 'register';
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (credentials: { username: string; password: string }) => void;
+}) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ username, password });
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div>
+        <Label htmlFor={`${mode}-username`} className="text-sm font-medium text-gray-700">
+          Username
+        </Label>
+        <Input
+          id={`${mode}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          className="mt-1"
+          required
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${mode}-password`} className="text-sm font-medium text-gray-700">
+          Password
+        </Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+          className="mt-1"
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen relative flex items-center justify-center px-4">
+      <div className="fixed inset-0 -z-10">
+        <div className="absolute inset-0 bg-gradient-to-br from-slate-50 via-blue-50 to-cyan-50"></div>
+      </div>
+
+      <div className="glass-card w-full max-w-sm p-6 space-y-6">
+        <div className="flex justify-center">
+          <Logo className="w-32 h-32" />
+        </div>
+        <Tabs defaultValue="login">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login">Log In</TabsTrigger>
+            <TabsTrigger value="register">Register</TabsTrigger>
+          </TabsList>
+          <TabsContent value="login" className="pt-4">
+            <CredentialsForm
+              mode="login"
+              submitLabel="Log In"
+              isPending={loginMutation.isPending}
+              onSubmit={(credentials) => loginMutation.mutate(credentials)}
+            />
+          </TabsContent>
+          <TabsContent value="register" className="pt-4">
+            <CredentialsForm
+              mode="register"
+              submitLabel="Register"
+              isPending={registerMutation.isPending}
+              onSubmit={(credentials) => registerMutation.mutate(credentials)}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,59 @@
 import { useState, useEffect } from 'react';
-import { QrCode, Trash2 } from 'lucide-react';
+import { Link } from 'wouter';
+import { QrCode, Trash2, FolderOpen, Lock, LogOut, Users, Settings } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
-import { useToast } from '@/hooks/use-toast';
+import { useScanSession } from '@/hooks/use-scan-session';
+import { useAuth } from '@/hooks/use-auth';
+import { useTrash } from '@/hooks/use-trash';
 import QRScanner from '@/components/qr-scanner';
 import ScanTable from '@/components/scan-table';
 import ExportModal from '@/components/export-modal';
 import DetailModal from '@/components/detail-modal';
+import SessionPicker from '@/components/session-picker';
+import SessionDetails from '@/components/session-details';
+import SessionStatusControls from '@/components/session-status';
+import OrganizationModal from '@/components/organization-modal';
 import Logo from '@/components/logo';
-import { ScannedQR } from '@shared/schema';
+import { ScannedQR, ScanSession } from '@shared/schema';
+import { isSessionWritable, SESSION_STATUS_LABELS, SessionStatus } from '@shared/session-status';
 
 export default function Scanner() {
-  const [sessionId] = useState(() => `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+  const { user, can, logoutMutation } = useAuth();
+  const { sessionId, openSession, startNewSession } = useScanSession(user!.id);
+  const [showSessionPicker, setShowSessionPicker] = useState(false);
+  const [showOrganization, setShowOrganization] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
   const [showDetailModal, setShowDetailModal] = useState(false);
-  const [selectedQR, setSelectedQR] = useState<ScannedQR | null>(null);
+  const [selectedQRId, setSelectedQRId] = useState<number | null>(null);
   const [selectedIds, setSelectedIds] = useState<number[]>([]);
   const [clearHistoryTrigger, setClearHistoryTrigger] = useState(0);
   
-  const { toast } = useToast();
+  const { showUndoToast } = useTrash(sessionId);
   const queryClient = useQueryClient();
 
-  // Initialize session
+  // Initialize session (resuming an existing one returns it unchanged)
   const createSessionMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/sessions', { sessionId });
+    mutationFn: async (id: string): Promise<ScanSession> => {
+      const response = await apiRequest('POST', '/api/sessions', { sessionId: id });
       return response.json();
     },
+    onSuccess: (session) => {
+      queryClient.setQueryData(['/api/sessions', session.sessionId], session);
+    },
+    onError: (error: Error) => {
+      // The remembered session is gone or belongs to someone else
+      if (error.message.startsWith('404:')) startNewSession();
+    },
+  });
+
+  // Session details; filled in by the create call above and kept current by edits
+  const { data: session } = useQuery<ScanSession>({
+    queryKey: ['/api/sessions', sessionId],
+    queryFn: () => apiRequest('GET', `/api/sessions/${sessionId}`).then(res => res.json()),
+    enabled: createSessionMutation.data?.sessionId === sessionId,
   });
 
   // Get session stats
@@ -45,28 +70,36 @@ export default function Scanner() {
     enabled: !!sessionId,
   });
 
+  // Until the session has loaded, assume it is open so scanning is not blocked
+  const isReadOnly = !!session && !isSessionWritable(session.status);
+
+  // Look the selected record up in the query data so edits show up in the detail view
+  const selectedQR = qrCodes.find((qr: ScannedQR) => qr.id === selectedQRId) ?? null;
+
   // Clear session
   const clearSessionMutation = useMutation({
-    mutationFn: async () => {
-      await apiRequest('DELETE', `/api/sessions/${sessionId}/qr-codes`);
+    mutationFn: async (): Promise<{ ids: number[] }> => {
+      const response = await apiRequest('DELETE', `/api/sessions/${sessionId}/qr-codes`);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: ({ ids }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/qr-codes', sessionId] });
       queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId, 'trash'] });
       setClearHistoryTrigger(prev => prev + 1); // Trigger history clear in QR scanner
-      toast({
-        title: "Session Cleared",
-        description: "All scan data has been cleared",
-      });
+      showUndoToast("Session Cleared", "All scans were moved to the trash", ids);
     },
   });
 
   useEffect(() => {
-    createSessionMutation.mutate();
-  }, []);
+    createSessionMutation.mutate(sessionId);
+    setSelectedIds([]);
+    setSelectedQRId(null);
+    setShowDetailModal(false);
+  }, [sessionId]);
 
   const handleClearSession = async () => {
-    const confirmMessage = 'All unsaved changes will be deleted. Are you sure you want to clear all scanned data from this session?';
+    const confirmMessage = 'All scanned data in this session will be moved to the trash. Continue?';
     if (window.confirm(confirmMessage)) {
       await clearSessionMutation.mutateAsync();
     }
@@ -78,7 +111,7 @@ export default function Scanner() {
   };
 
   const handleViewDetails = (qr: ScannedQR) => {
-    setSelectedQR(qr);
+    setSelectedQRId(qr.id);
     setShowDetailModal(true);
   };
 
@@ -97,20 +130,54 @@ export default function Scanner() {
               <Logo className="w-16 h-16 sm:w-32 sm:h-32" />
             </div>
             <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 sm:gap-6 w-full sm:w-auto">
-              <div className="glass-surface px-3 py-1.5 sm:px-4 sm:py-2 rounded-xl w-full sm:w-auto">
-                <span className="text-xs sm:text-sm text-muted-foreground">
-                  Status: <span className="font-semibold text-primary">Active Session</span>
-                </span>
-              </div>
+              <SessionDetails key={sessionId} sessionId={sessionId} session={session} readOnly={isReadOnly} />
+              <SessionStatusControls session={session} />
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={handleClearSession}
-                className="glass-button text-destructive hover:text-destructive-foreground hover:bg-destructive/20 w-full sm:w-auto"
-                disabled={clearSessionMutation.isPending}
+                onClick={() => setShowSessionPicker(true)}
+                className="glass-button w-full sm:w-auto"
               >
-                <Trash2 className="w-4 h-4 mr-2" />
-                Clear Session
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Sessions
+              </Button>
+              {can('edit') && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleClearSession}
+                  className="glass-button text-destructive hover:text-destructive-foreground hover:bg-destructive/20 w-full sm:w-auto"
+                  disabled={clearSessionMutation.isPending || isReadOnly}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Clear Session
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowOrganization(true)}
+                className="glass-button w-full sm:w-auto"
+              >
+                <Users className="w-4 h-4 mr-2" />
+                Team
+              </Button>
+              <Button asChild variant="ghost" size="sm" className="glass-button w-full sm:w-auto">
+                <Link href="/settings">
+                  <Settings className="w-4 h-4 mr-2" />
+                  Settings
+                </Link>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                className="glass-button w-full sm:w-auto"
+                disabled={logoutMutation.isPending}
+                title={`Logged in as ${user!.username}`}
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Log Out
               </Button>
             </div>
           </div>
@@ -122,15 +189,30 @@ export default function Scanner() {
           
           {/* Scanner Panel */}
           <div className="lg:col-span-1 space-y-4 sm:space-y-6">
-            <QRScanner 
-              sessionId={sessionId} 
-              onScanSuccess={() => {
-                // Stats will be refreshed automatically via query invalidation
-              }}
-              onClearHistory={clearHistoryTrigger > 0 ? () => {
-                console.log('Clearing QR scanner history');
-              } : undefined}
-            />
+            {isReadOnly ? (
+              <div className="glass-card p-6 text-center space-y-3">
+                <div className="w-12 h-12 rounded-xl bg-warning/20 flex items-center justify-center mx-auto">
+                  <Lock className="w-6 h-6 text-warning" />
+                </div>
+                <h3 className="text-lg font-bold text-foreground">
+                  Session {SESSION_STATUS_LABELS[session!.status as SessionStatus]}
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Scanning is disabled. Reopen the session to add, edit or delete scans.
+                </p>
+              </div>
+            ) : (
+              <QRScanner 
+                key={sessionId}
+                sessionId={sessionId} 
+                onScanSuccess={() => {
+                  // Stats will be refreshed automatically via query invalidation
+                }}
+                onClearHistory={clearHistoryTrigger > 0 ? () => {
+                  console.log('Clearing QR scanner history');
+                } : undefined}
+              />
+            )}
 
             {/* Statistics Card */}
             <div className="glass-card p-6">
@@ -172,7 +254,9 @@ export default function Scanner() {
           {/* Data Table */}
           <div className="lg:col-span-2">
             <ScanTable 
+              key={sessionId}
               sessionId={sessionId}
+              readOnly={isReadOnly}
               onExport={handleExport}
               onViewDetails={handleViewDetails}
             />
@@ -186,12 +270,27 @@ export default function Scanner() {
         onClose={() => setShowExportModal(false)}
         qrCodes={qrCodes}
         selectedIds={selectedIds}
+        sessionId={sessionId}
+      />
+
+      <SessionPicker
+        isOpen={showSessionPicker}
+        onClose={() => setShowSessionPicker(false)}
+        currentSessionId={sessionId}
+        onOpenSession={openSession}
+        onNewSession={startNewSession}
       />
 
       <DetailModal
         isOpen={showDetailModal}
         onClose={() => setShowDetailModal(false)}
         qr={selectedQR}
+        readOnly={isReadOnly || !can('edit')}
+      />
+
+      <OrganizationModal
+        isOpen={showOrganization}
+        onClose={() => setShowOrganization(false)}
       />
     </div>
   );
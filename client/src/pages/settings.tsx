@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, KeyRound, Copy, Ban, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth, errorMessage } from '@/hooks/use-auth';
+import Logo from '@/components/logo';
+import ExportTemplates from '@/components/export-templates';
+import JournalProfiles from '@/components/journal-profiles';
+import { CreatedApiKey, NewApiKey, PublicApiKey } from '@shared/schema';
+import { API_KEY_SCOPES, API_KEY_SCOPE_DESCRIPTIONS, ApiKeyScope } from '@shared/api-keys';
+import { ROLE_LABELS, Role } from '@shared/roles';
+
+const formatDate = (value: Date | string | null) => (value ? new Date(value).toLocaleString() : 'Never');
+
+function ApiKeys() {
+  const [form, setForm] = useState<NewApiKey>({ name: '', scopes: ['read'] });
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: apiKeys = [], isLoading } = useQuery<PublicApiKey[]>({
+    queryKey: ['/api/api-keys'],
+    queryFn: () => apiRequest('GET', '/api/api-keys').then(res => res.json()),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (newKey: NewApiKey): Promise<CreatedApiKey> => {
+      const response = await apiRequest('POST', '/api/api-keys', newKey);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+      setCreated(result);
+      setForm({ name: '', scopes: ['read'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "API Key Not Created",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number): Promise<PublicApiKey> => {
+      const response = await apiRequest('DELETE', `/api/api-keys/${id}`);
+      return response.json();
+    },
+    onSuccess: (revoked) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+      toast({
+        title: "API Key Revoked",
+        description: `"${revoked.name}" no longer works`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Revoke Failed",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setForm({
+      ...form,
+      scopes: checked ? [...form.scopes, scope] : form.scopes.filter(s => s !== scope),
+    });
+  };
+
+  const handleRevoke = (apiKey: PublicApiKey) => {
+    if (window.confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working immediately.`)) {
+      revokeMutation.mutate(apiKey.id);
+    }
+  };
+
+  const handleCopy = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      toast({
+        title: "Copied",
+        description: "The API key is on the clipboard",
+      });
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Select the key and copy it manually",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="glass-card p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center">
+            <KeyRound className="w-4 h-4 text-primary" />
+          </div>
+          API Keys
+        </h2>
+        <p className="text-sm text-muted-foreground mt-2">
+          Scripts send a key in the <code>Authorization: Bearer &lt;key&gt;</code> header to use the API without logging in.
+          A key works on every session of the organization, limited to its scopes.
+        </p>
+      </div>
+
+      {created && (
+        <div className="glass-surface rounded-xl p-4 border border-success/30 space-y-2">
+          <div className="text-sm font-medium text-foreground">
+            Key "{created.apiKey.name}" created. Copy it now; it will not be shown again.
+          </div>
+          <div className="flex gap-2">
+            <Input value={created.key} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={() => handleCopy(created.key)}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setCreated(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createMutation.mutate(form);
+        }}
+      >
+        <div>
+          <Label htmlFor="api-key-name" className="text-sm font-medium text-gray-700">
+            Name
+          </Label>
+          <Input
+            id="api-key-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="ERP import"
+            className="mt-1"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Scopes</Label>
+          {API_KEY_SCOPES.map((scope) => (
+            <div key={scope} className="flex items-start space-x-2">
+              <Checkbox
+                id={`api-key-scope-${scope}`}
+                checked={form.scopes.includes(scope)}
+                onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+              />
+              <Label htmlFor={`api-key-scope-${scope}`} className="text-sm text-gray-700 leading-tight">
+                <span className="font-medium">{scope}</span>
+                <span className="block text-xs text-muted-foreground">{API_KEY_SCOPE_DESCRIPTIONS[scope]}</span>
+              </Label>
+            </div>
+          ))}
+        </div>
+        <Button type="submit" disabled={!form.name.trim() || form.scopes.length === 0 || createMutation.isPending}>
+          <Plus className="w-4 h-4 mr-2" />
+          Create Key
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : apiKeys.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">No API keys yet.</p>
+      ) : (
+        <ul className="divide-y divide-white/10 glass-surface rounded-xl">
+          {apiKeys.map((apiKey) => (
+            <li key={apiKey.id} className="flex items-center justify-between gap-3 px-3 py-3">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                  <span className="truncate">{apiKey.name}</span>
+                  <code className="text-xs text-muted-foreground">{apiKey.keyPrefix}…</code>
+                  {apiKey.revokedAt && <Badge variant="outline" className="text-destructive border-destructive/30">Revoked</Badge>}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {apiKey.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary" className="text-xs">{scope}</Badge>
+                  ))}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Created {formatDate(apiKey.createdAt)} · Last used {formatDate(apiKey.lastUsedAt)}
+                  {apiKey.revokedAt && ` · Revoked ${formatDate(apiKey.revokedAt)}`}
+                </div>
+              </div>
+              {!apiKey.revokedAt && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="glass-button text-destructive hover:text-destructive-foreground shrink-0"
+                  onClick={() => handleRevoke(apiKey)}
+                  disabled={revokeMutation.isPending}
+                >
+                  <Ban className="w-4 h-4 mr-1" />
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function Settings() {
+  const { user, can } = useAuth();
+
+  return (
+    <div className="min-h-screen relative">
+      <div className="fixed inset-0 -z-10">
+        <div className="absolute inset-0 bg-gradient-to-br from-slate-50 via-blue-50 to-cyan-50"></div>
+      </div>
+
+      <header className="glass border-b border-white/20 sticky top-0 z-50">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center gap-3 py-2 sm:h-20 sm:py-0">
+            <Logo className="w-16 h-16 sm:w-32 sm:h-32" />
+            <Button asChild variant="ghost" size="sm" className="glass-button">
+              <Link href="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Scanner
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-6">
+        <div className="glass-card p-6">
+          <h2 className="text-xl font-bold text-foreground mb-2">Account</h2>
+          <p className="text-sm text-muted-foreground">
+            Logged in as <span className="font-medium text-foreground">{user!.username}</span>
+            {' '}({ROLE_LABELS[user!.role as Role] ?? user!.role})
+          </p>
+        </div>
+
+        {can('manage') ? (
+          <ApiKeys />
+        ) : (
+          <div className="glass-card p-6 text-sm text-muted-foreground">
+            API keys are managed by the organization's admins.
+          </div>
+        )}
+
+        {can('export') && <ExportTemplates />}
+
+        {can('export') && <JournalProfiles />}
+      </div>
+    </div>
+  );
+}
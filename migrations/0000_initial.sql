@@ -0,0 +1,36 @@
+CREATE TABLE "scan_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "scan_sessions_session_id_unique" UNIQUE("session_id")
+);
+--> statement-breakpoint
+CREATE TABLE "scanned_qrs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"status" text NOT NULL,
+	"seller_name" text,
+	"vat_number" text,
+	"vat_number_error" text,
+	"invoice_number" text,
+	"invoice_number_source" text DEFAULT 'missing' NOT NULL,
+	"invoice_date" timestamp with time zone,
+	"invoice_timezone" text,
+	"subtotal" numeric(10, 2),
+	"vat_amount" numeric(10, 2),
+	"total_amount" numeric(10, 2),
+	"zero_rated" boolean DEFAULT false,
+	"amount_flags" jsonb,
+	"raw_data" text NOT NULL,
+	"is_manual_entry" boolean DEFAULT false,
+	"notes" text,
+	"invoice_hash" text,
+	"signature" text,
+	"public_key" text,
+	"stamp_signature" text,
+	"signature_status" text,
+	"parse_diagnostics" jsonb,
+	"scanned_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "scanned_qrs_session_raw_data_idx" ON "scanned_qrs" USING btree ("session_id","raw_data") WHERE "scanned_qrs"."is_manual_entry" = false;
\ No newline at end of file
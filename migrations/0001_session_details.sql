@@ -0,0 +1,5 @@
+ALTER TABLE "scan_sessions" ADD COLUMN "name" text;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD COLUMN "client" text;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD COLUMN "tax_period" text;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD COLUMN "cost_center" text;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD COLUMN "notes" text;
\ No newline at end of file
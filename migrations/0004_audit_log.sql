@@ -0,0 +1,13 @@
+CREATE TABLE "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sequence" integer NOT NULL,
+	"action" text NOT NULL,
+	"session_id" text,
+	"qr_id" integer,
+	"actor" text,
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"prev_hash" text,
+	"hash" text NOT NULL,
+	CONSTRAINT "audit_log_sequence_unique" UNIQUE("sequence")
+);
@@ -0,0 +1,9 @@
+CREATE TABLE "organizations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'scanner' NOT NULL;
\ No newline at end of file
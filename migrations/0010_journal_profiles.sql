@@ -0,0 +1,11 @@
+CREATE TABLE "journal_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"settings" jsonb NOT NULL,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "journal_profiles_organization_name_idx" ON "journal_profiles" USING btree ("organization_id","name");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "export_templates" ALTER COLUMN "created_by" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "journal_profiles" ALTER COLUMN "created_by" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "export_templates" ADD COLUMN "api_key_id" integer;--> statement-breakpoint
+ALTER TABLE "journal_profiles" ADD COLUMN "api_key_id" integer;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD COLUMN "api_key_id" integer;
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE `scan_sessions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `scan_sessions_session_id_unique` ON `scan_sessions` (`session_id`);--> statement-breakpoint
+CREATE TABLE `scanned_qrs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` text NOT NULL,
+	`status` text NOT NULL,
+	`seller_name` text,
+	`vat_number` text,
+	`vat_number_error` text,
+	`invoice_number` text,
+	`invoice_number_source` text DEFAULT 'missing' NOT NULL,
+	`invoice_date` integer,
+	`invoice_timezone` text,
+	`subtotal` text,
+	`vat_amount` text,
+	`total_amount` text,
+	`zero_rated` integer DEFAULT false,
+	`amount_flags` text,
+	`raw_data` text NOT NULL,
+	`is_manual_entry` integer DEFAULT false,
+	`notes` text,
+	`invoice_hash` text,
+	`signature` text,
+	`public_key` text,
+	`stamp_signature` text,
+	`signature_status` text,
+	`parse_diagnostics` text,
+	`scanned_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `scanned_qrs_session_raw_data_idx` ON `scanned_qrs` (`session_id`,`raw_data`) WHERE "scanned_qrs"."is_manual_entry" = 0;
\ No newline at end of file
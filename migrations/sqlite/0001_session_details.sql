@@ -0,0 +1,5 @@
+ALTER TABLE `scan_sessions` ADD `name` text;--> statement-breakpoint
+ALTER TABLE `scan_sessions` ADD `client` text;--> statement-breakpoint
+ALTER TABLE `scan_sessions` ADD `tax_period` text;--> statement-breakpoint
+ALTER TABLE `scan_sessions` ADD `cost_center` text;--> statement-breakpoint
+ALTER TABLE `scan_sessions` ADD `notes` text;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `session_status_changes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` text NOT NULL,
+	`from_status` text NOT NULL,
+	`to_status` text NOT NULL,
+	`reason` text,
+	`changed_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `scan_sessions` ADD `status` text DEFAULT 'open' NOT NULL;--> statement-breakpoint
+ALTER TABLE `scan_sessions` ADD `status_changed_at` integer;
\ No newline at end of file
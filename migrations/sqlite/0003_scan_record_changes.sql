@@ -0,0 +1,10 @@
+CREATE TABLE `scan_record_changes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`qr_id` integer NOT NULL,
+	`session_id` text NOT NULL,
+	`field` text NOT NULL,
+	`old_value` text,
+	`new_value` text,
+	`changed_by` text,
+	`changed_at` integer NOT NULL
+);
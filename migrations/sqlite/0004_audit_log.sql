@@ -0,0 +1,14 @@
+CREATE TABLE `audit_log` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`sequence` integer NOT NULL,
+	`action` text NOT NULL,
+	`session_id` text,
+	`qr_id` integer,
+	`actor` text,
+	`details` text,
+	`created_at` integer NOT NULL,
+	`prev_hash` text,
+	`hash` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `audit_log_sequence_unique` ON `audit_log` (`sequence`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX `scanned_qrs_session_raw_data_idx`;--> statement-breakpoint
+ALTER TABLE `scanned_qrs` ADD `deleted_at` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX `scanned_qrs_session_raw_data_idx` ON `scanned_qrs` (`session_id`,`raw_data`) WHERE "scanned_qrs"."is_manual_entry" = 0 and "scanned_qrs"."deleted_at" is null;
\ No newline at end of file
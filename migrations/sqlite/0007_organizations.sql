@@ -0,0 +1,9 @@
+CREATE TABLE `organizations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `scan_sessions` ADD `organization_id` integer;--> statement-breakpoint
+ALTER TABLE `users` ADD `organization_id` integer;--> statement-breakpoint
+ALTER TABLE `users` ADD `role` text DEFAULT 'scanner' NOT NULL;
\ No newline at end of file
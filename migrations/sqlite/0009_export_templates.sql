@@ -0,0 +1,11 @@
+CREATE TABLE `export_templates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`organization_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`settings` text NOT NULL,
+	`created_by` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `export_templates_organization_name_idx` ON `export_templates` (`organization_id`,`name`);
\ No newline at end of file
@@ -0,0 +1,33 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_export_templates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`organization_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`settings` text NOT NULL,
+	`created_by` integer,
+	`api_key_id` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_export_templates`("id", "organization_id", "name", "settings", "created_by", "api_key_id", "created_at", "updated_at") SELECT "id", "organization_id", "name", "settings", "created_by", NULL, "created_at", "updated_at" FROM `export_templates`;--> statement-breakpoint
+DROP TABLE `export_templates`;--> statement-breakpoint
+ALTER TABLE `__new_export_templates` RENAME TO `export_templates`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `export_templates_organization_name_idx` ON `export_templates` (`organization_id`,`name`);--> statement-breakpoint
+CREATE TABLE `__new_journal_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`organization_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`settings` text NOT NULL,
+	`created_by` integer,
+	`api_key_id` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_journal_profiles`("id", "organization_id", "name", "settings", "created_by", "api_key_id", "created_at", "updated_at") SELECT "id", "organization_id", "name", "settings", "created_by", NULL, "created_at", "updated_at" FROM `journal_profiles`;--> statement-breakpoint
+DROP TABLE `journal_profiles`;--> statement-breakpoint
+ALTER TABLE `__new_journal_profiles` RENAME TO `journal_profiles`;--> statement-breakpoint
+CREATE UNIQUE INDEX `journal_profiles_organization_name_idx` ON `journal_profiles` (`organization_id`,`name`);--> statement-breakpoint
+ALTER TABLE `scan_sessions` ADD `api_key_id` integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `session_status_changes` ADD `changed_by` integer;
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { startTestApp, testQRCode, type TestClient } from "./test-app";
+
+describe("API keys", () => {
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+  let admin: TestClient;
+
+  // A client that sends a new key of the admin's organization
+  const withKey = async (name: string, scopes: string[]) => {
+    const { status, body } = await admin("POST", "/api/api-keys", { name, scopes });
+    if (status !== 201) throw new Error(`Could not create ${name}: ${status}`);
+    return { id: body.apiKey.id as number, request: app.client({ authorization: `Bearer ${body.key}` }) };
+  };
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    admin = await app.register("admin");
+    await admin("POST", "/api/sessions", { sessionId: "keys-1" });
+  });
+
+  afterAll(() => app.close());
+
+  it("lets a read key read but not scan or export", async () => {
+    const { request } = await withKey("Reader", ["read"]);
+    expect((await request("GET", "/api/sessions/keys-1")).status).toBe(200);
+    expect((await request("POST", "/api/qr-codes", { sessionId: "keys-1", rawData: testQRCode("Alpha") })).status).toBe(403);
+    expect((await request("GET", "/api/sessions/keys-1/export")).status).toBe(403);
+  });
+
+  it("needs the read scope for GET requests", async () => {
+    const { request } = await withKey("Scanner", ["write"]);
+    expect((await request("POST", "/api/qr-codes", { sessionId: "keys-1", rawData: testQRCode("Beta") })).status).toBe(201);
+    expect(await request("GET", "/api/sessions/keys-1")).toMatchObject({ status: 403, body: { scope: "read" } });
+  });
+
+  it("needs the export scope to export", async () => {
+    const { request } = await withKey("Exporter", ["read", "export"]);
+    expect((await request("GET", "/api/sessions/keys-1/export")).status).toBe(200);
+  });
+
+  it("never locks sessions or manages the organization", async () => {
+    const { request } = await withKey("Everything", ["read", "write", "export"]);
+    expect((await request("POST", "/api/sessions/keys-1/status", { status: "locked" })).status).toBe(403);
+    expect((await request("GET", "/api/api-keys")).status).toBe(403);
+    expect((await request("POST", "/api/organization/members", { username: "mallory", password: "password1", role: "admin" })).status).toBe(403);
+  });
+
+  it("names the key in the audit log", async () => {
+    const { id, request } = await withKey("ERP", ["write"]);
+    await request("POST", "/api/qr-codes", { sessionId: "keys-1", rawData: testQRCode("Gamma") });
+    const { body } = await admin("GET", "/api/audit-log");
+    expect(body.find((entry: { action: string; actor: string }) => entry.action === "qr.create" && entry.actor === "api-key:ERP"))
+      .toMatchObject({ details: { apiKeyId: id } });
+  });
+
+  it("stops working once revoked", async () => {
+    const { id, request } = await withKey("Revoked", ["read"]);
+    expect((await request("GET", "/api/sessions")).status).toBe(200);
+    expect((await admin("DELETE", `/api/api-keys/${id}`)).status).toBe(200);
+    expect(await request("GET", "/api/sessions")).toMatchObject({ status: 401, body: { message: "Invalid or revoked API key" } });
+  });
+
+  it("rejects a key that does not exist", async () => {
+    const request = app.client({ "x-api-key": "zsk_unknown" });
+    expect((await request("GET", "/api/sessions")).status).toBe(401);
+  });
+
+  it("records its use at most once a minute", async () => {
+    const { request } = await withKey("Busy", ["read"]);
+    const touch = vi.spyOn(app.storage, "touchApiKey");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(new Date("2024-05-01T10:00:00Z"));
+      await request("GET", "/api/sessions");
+      vi.setSystemTime(new Date("2024-05-01T10:00:30Z"));
+      await request("GET", "/api/sessions");
+      expect(touch).toHaveBeenCalledTimes(1);
+
+      vi.setSystemTime(new Date("2024-05-01T10:01:01Z"));
+      await request("GET", "/api/sessions");
+      expect(touch).toHaveBeenCalledTimes(2);
+      expect(touch).toHaveBeenLastCalledWith(expect.any(Number), new Date("2024-05-01T10:01:01Z"));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import type { NextFunction, Request, Response } from "express";
+import { createHash, randomBytes } from "crypto";
+import type { ApiKey, PublicApiKey } from "@shared/schema";
+import { API_KEY_PREFIX, type ApiKeyScope } from "@shared/api-keys";
+import type { Permission } from "@shared/roles";
+import type { IStorage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with an API key instead of a login
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+// Permissions a scope grants on top of reading. Locking sessions and
+// managing the organization always need a login.
+const SCOPE_PERMISSIONS: Record<ApiKeyScope, Permission[]> = {
+  read: [],
+  write: ['scan', 'edit'],
+  export: ['export'],
+};
+
+export function scopesAllow(scopes: ApiKeyScope[], permission: Permission): boolean {
+  return scopes.some(scope => SCOPE_PERMISSIONS[scope]?.includes(permission));
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6), keyHash: hashApiKey(key) };
+}
+
+export function toPublicApiKey({ keyHash: _keyHash, ...apiKey }: ApiKey): PublicApiKey {
+  return apiKey;
+}
+
+// "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function readApiKey(req: Request): string | undefined {
+  const authorization = req.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim() || undefined;
+  }
+  return req.get("x-api-key")?.trim() || undefined;
+}
+
+// lastUsedAt is written at most once a minute, not on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Authenticates requests that carry an API key. The key acts in its
+ * organization as a user named after it, without an account id, so session
+ * lookups treat it like a member while what it creates and the audit log
+ * name the key rather than the admin who made it; requirePermission checks
+ * its scopes instead of a role. Requests without a key fall through to the
+ * login session.
+ */
+export function authenticateApiKey(storage: IStorage) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = readApiKey(req);
+    if (!key) return next();
+
+    try {
+      const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+      if (!apiKey || apiKey.revokedAt) {
+        return res.status(401).json({ message: "Invalid or revoked API key" });
+      }
+      if (req.method === "GET" && !apiKey.scopes.includes("read")) {
+        return res.status(403).json({ message: "This API key does not have the read scope", scope: "read" });
+      }
+      const now = new Date();
+      if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+        await storage.touchApiKey(apiKey.id, now);
+      }
+
+      req.apiKey = apiKey;
+      // Usernames cannot contain a colon, so this never matches a member
+      req.user = {
+        id: null,
+        username: `api-key:${apiKey.name}`,
+        organizationId: apiKey.organizationId,
+        role: "api-key",
+        createdAt: apiKey.createdAt,
+      };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
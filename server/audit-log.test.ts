@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { AuditEntry, NewAuditEntry } from "@shared/schema";
+import { attributeAuditEntry, sealAuditEntry, verifyAuditChain } from "./audit-log";
+
+// Seals the events one after another, as appendAuditEntry does
+function buildChain(events: NewAuditEntry[]): AuditEntry[] {
+  const chain: AuditEntry[] = [];
+  for (const event of events) {
+    chain.push({ id: chain.length + 1, ...sealAuditEntry(event, chain[chain.length - 1]) });
+  }
+  return chain;
+}
+
+const events: NewAuditEntry[] = [
+  { action: "session.create", sessionId: "a", actor: "alice", details: { name: "March" } },
+  { action: "qr.create", sessionId: "a", qrId: 1, actor: "alice", details: { sellerName: "شركة", totalAmount: "115.00" } },
+  { action: "session.create", sessionId: "b", actor: "bob", details: null },
+  { action: "qr.delete", sessionId: "a", qrId: 1, actor: "alice" },
+];
+
+describe("sealAuditEntry", () => {
+  it("numbers the entries and links each to the hash of the one before", () => {
+    const chain = buildChain(events);
+    expect(chain.map(entry => entry.sequence)).toEqual([1, 2, 3, 4]);
+    expect(chain[0].prevHash).toBeNull();
+    chain.slice(1).forEach((entry, index) => expect(entry.prevHash).toBe(chain[index].hash));
+    expect(new Set(chain.map(entry => entry.hash)).size).toBe(4);
+  });
+});
+
+describe("verifyAuditChain", () => {
+  it("accepts an untouched chain", () => {
+    expect(verifyAuditChain(buildChain(events))).toEqual({ valid: true, entries: 4 });
+  });
+
+  it("hashes details the same whatever their key order", () => {
+    const chain = buildChain(events);
+    chain[1] = { ...chain[1], details: { totalAmount: "115.00", sellerName: "شركة" } };
+    expect(verifyAuditChain(chain).valid).toBe(true);
+  });
+
+  it("finds a modified entry", () => {
+    const chain = buildChain(events);
+    chain[1] = { ...chain[1], details: { sellerName: "شركة", totalAmount: "1.00" } };
+    expect(verifyAuditChain(chain)).toEqual({ valid: false, entries: 4, brokenAt: 2, reason: "Entry was modified" });
+  });
+
+  it("finds an entry that was re-sealed after it was modified", () => {
+    const chain = buildChain(events);
+    chain[1] = { id: 2, ...sealAuditEntry({ ...events[1], actor: "mallory" }, chain[0]) };
+    expect(verifyAuditChain(chain)).toMatchObject({ valid: false, brokenAt: 2, reason: "Next entry does not link to it" });
+  });
+
+  it("finds a removed entry", () => {
+    const chain = buildChain(events).filter(entry => entry.sequence !== 3);
+    expect(verifyAuditChain(chain)).toMatchObject({ valid: false, brokenAt: 2, reason: "Entry 3 is missing" });
+  });
+
+  it("checks only the given entries against the whole chain", () => {
+    const chain = buildChain(events);
+    chain[2] = { ...chain[2], actor: "mallory" };
+    const own = chain.filter(entry => entry.sessionId === "a");
+
+    // Entry 3 belongs to someone else and is not reported...
+    expect(verifyAuditChain(chain, own)).toEqual({ valid: true, entries: 3 });
+    // ...but its owner sees it
+    expect(verifyAuditChain(chain, [chain[2]])).toMatchObject({ valid: false, entries: 1, brokenAt: 3 });
+  });
+
+  it("finds a neighbour that no longer links to an entry", () => {
+    const chain = buildChain(events);
+    chain[3] = { ...chain[3], prevHash: "0".repeat(64) };
+    expect(verifyAuditChain(chain, [chain[2]])).toMatchObject({ valid: false, brokenAt: 3, reason: "Next entry does not link to it" });
+  });
+});
+
+describe("attributeAuditEntry", () => {
+  it("names a member as the actor", () => {
+    expect(attributeAuditEntry({ action: "session.create", details: { name: "March" } }, { name: "alice", apiKeyId: null }))
+      .toEqual({ action: "session.create", actor: "alice", details: { name: "March" } });
+  });
+
+  it("names an API key and records its id in the details", () => {
+    expect(attributeAuditEntry({ action: "qr.create", details: { sellerName: "Seller" } }, { name: "api-key:ERP", apiKeyId: 7 }))
+      .toEqual({ action: "qr.create", actor: "api-key:ERP", details: { sellerName: "Seller", apiKeyId: 7 } });
+  });
+});
@@ -0,0 +1,120 @@
+import { createHash } from "crypto";
+import type { AuditChainVerification, AuditEntry, NewAuditEntry, ScannedQR, SealedAuditEntry } from "@shared/schema";
+
+// JSON with sorted keys. Postgres jsonb does not keep key order, so details
+// must hash the same after a round trip through the database.
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(",")}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashAuditEntry(entry: SealedAuditEntry): string {
+  const payload = canonicalJson([
+    entry.sequence,
+    entry.action,
+    entry.sessionId,
+    entry.qrId,
+    entry.actor,
+    entry.details,
+    entry.createdAt.toISOString(),
+    entry.prevHash,
+  ]);
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+/**
+ * Turns an event into the next entry of the chain: numbers it after the
+ * previous entry, stamps the time and hashes it together with the previous
+ * entry's hash.
+ */
+export function sealAuditEntry(entry: NewAuditEntry, previous: AuditEntry | undefined): SealedAuditEntry {
+  const sealed: SealedAuditEntry = {
+    sequence: (previous?.sequence ?? 0) + 1,
+    action: entry.action,
+    sessionId: entry.sessionId ?? null,
+    qrId: entry.qrId ?? null,
+    actor: entry.actor ?? null,
+    // Dates and other non-JSON values would not survive storage unchanged
+    details: entry.details ? JSON.parse(JSON.stringify(entry.details)) : null,
+    createdAt: new Date(),
+    prevHash: previous?.hash ?? null,
+    hash: "",
+  };
+  sealed.hash = hashAuditEntry(sealed);
+  return sealed;
+}
+
+/**
+ * Checks entries of the shared chain, oldest first: each must hash to its
+ * stored hash and link to the entries either side of it. The chain of every
+ * organization is one, so an organization checks only its own entries; the
+ * others are used for their hashes and never reported.
+ */
+export function verifyAuditChain(chain: AuditEntry[], entries: AuditEntry[] = chain): AuditChainVerification {
+  const bySequence = new Map(chain.map(entry => [entry.sequence, entry]));
+  const last = chain[chain.length - 1]?.sequence ?? 0;
+  const broken = (entry: AuditEntry, reason: string): AuditChainVerification =>
+    ({ valid: false, entries: entries.length, brokenAt: entry.sequence, reason });
+
+  for (const entry of entries) {
+    if (entry.hash !== hashAuditEntry(entry)) {
+      return broken(entry, "Entry was modified");
+    }
+    const previous = bySequence.get(entry.sequence - 1);
+    if (entry.sequence > 1 && !previous) {
+      return broken(entry, `Entry ${entry.sequence - 1} is missing`);
+    }
+    if (entry.prevHash !== (previous?.hash ?? null)) {
+      return broken(entry, "Previous hash does not match");
+    }
+    // A removed or re-sealed entry also breaks the link from the one after it
+    const next = bySequence.get(entry.sequence + 1);
+    if (!next && entry.sequence < last) {
+      return broken(entry, `Entry ${entry.sequence + 1} is missing`);
+    }
+    if (next && next.prevHash !== entry.hash) {
+      return broken(entry, "Next entry does not link to it");
+    }
+  }
+  return { valid: true, entries: entries.length };
+}
+
+// Who an entry is attributed to: a member's username, or "api-key:<name>"
+// together with the key's id, which goes in the entry's details
+export type AuditActor = { name: string; apiKeyId: number | null };
+
+export function attributeAuditEntry(entry: NewAuditEntry, actor?: AuditActor): NewAuditEntry {
+  if (!actor) return entry;
+  return {
+    ...entry,
+    actor: actor.name,
+    details: actor.apiKeyId === null ? entry.details : { ...entry.details, apiKeyId: actor.apiKeyId },
+  };
+}
+
+// What the trail keeps of a record, enough to tell what was scanned or deleted
+export function describeScannedQR(qr: ScannedQR): Record<string, unknown> {
+  return {
+    status: qr.status,
+    sellerName: qr.sellerName,
+    vatNumber: qr.vatNumber,
+    invoiceNumber: qr.invoiceNumber,
+    invoiceDate: qr.invoiceDate?.toISOString() ?? null,
+    vatAmount: qr.vatAmount,
+    totalAmount: qr.totalAmount,
+    isManualEntry: qr.isManualEntry,
+    rawData: qr.rawData,
+  };
+}
@@ -0,0 +1,209 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import { Passport } from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { credentialsSchema, type PublicUser, type User } from "@shared/schema";
+import { hasPermission, ROLE_LABELS, type Permission, type Role } from "@shared/roles";
+import { scopesAllow } from "./api-keys";
+import type { IStorage } from "./storage";
+
+declare global {
+  namespace Express {
+    // An API key is not an account, so it acts with a null id
+    interface User extends Omit<PublicUser, "id"> {
+      id: number | null;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return timingSafeEqual(expected, actual);
+}
+
+export function toPublicUser({ passwordHash: _passwordHash, ...user }: User): PublicUser {
+  return user;
+}
+
+// Rejects API calls without a logged-in user
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Please log in" });
+  }
+  next();
+}
+
+// Rejects requests the user's role, or the API key's scopes, do not allow;
+// use after requireUser
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKey) {
+      if (!scopesAllow(req.apiKey.scopes, permission)) {
+        return res.status(403).json({ message: "This API key is not allowed to do this", permission });
+      }
+      return next();
+    }
+    if (!hasPermission(req.user!.role, permission)) {
+      const role = ROLE_LABELS[req.user!.role as Role] ?? req.user!.role;
+      return res.status(403).json({ message: `The ${role} role is not allowed to do this`, permission });
+    }
+    next();
+  };
+}
+
+// The account named by LEGACY_SESSIONS_OWNER, whose organization takes the
+// sessions created before accounts existed
+export function getLegacySessionsOwner(value = process.env.LEGACY_SESSIONS_OWNER): string | null {
+  return value?.trim().toLowerCase() || null;
+}
+
+/**
+ * Accounts without an organization (new registrations and accounts from
+ * before organizations existed) get one of their own, run it as admin and
+ * take their sessions into it. Sessions without an owner only go to the
+ * account named by LEGACY_SESSIONS_OWNER, never to whoever registers first.
+ */
+async function ensureOrganization(storage: IStorage, user: User): Promise<User> {
+  if (user.organizationId !== null) return user;
+  const organization = await storage.createOrganization(user.username);
+  await storage.claimUnownedSessions(organization.id, user.id, user.username === getLegacySessionsOwner());
+  return (await storage.updateUser(user.id, { organizationId: organization.id, role: 'admin' })) ?? user;
+}
+
+/**
+ * Run at startup: when the LEGACY_SESSIONS_OWNER account already has an
+ * organization, sessions without an owner are moved into it. An account that
+ * does not have one yet takes them when it first logs in.
+ */
+export async function claimLegacySessions(storage: IStorage, log: (message: string) => void) {
+  const username = getLegacySessionsOwner();
+  if (!username) return;
+  const owner = await storage.getUserByUsername(username);
+  if (!owner) {
+    log(`legacy sessions wait for the account "${username}" to register`);
+    return;
+  }
+  if (owner.organizationId === null) return;
+  const claimed = await storage.claimUnownedSessions(owner.organizationId, owner.id, true);
+  if (claimed > 0) log(`moved ${claimed} legacy session(s) to ${username}'s organization`);
+}
+
+/**
+ * Local username/password accounts with cookie sessions kept in the storage
+ * backend's session store. Adds register, login, logout and current-user
+ * routes; everything else under /api is registered behind requireUser.
+ * Registering creates a new organization; admins add further members.
+ */
+export function setupAuth(app: Express, storage: IStorage) {
+  if (!process.env.SESSION_SECRET && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  // An authenticator of its own, so users are looked up in this app's
+  // storage even when a process runs more than one app
+  const passport = new Passport();
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    // Without a secret, logins do not survive a restart
+    secret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim().toLowerCase());
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      done(null, toPublicUser(await ensureOrganization(storage, user)));
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(await ensureOrganization(storage, user)) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password } = credentialsSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      // Every account starts in an organization of its own; only the
+      // LEGACY_SESSIONS_OWNER account takes sessions from before accounts existed
+      const user = await ensureOrganization(
+        storage,
+        await storage.createUser({ username, passwordHash: await hashPassword(password) }),
+      );
+      req.login(toPublicUser(user), (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Username already exists')) {
+        res.status(409).json({ message: "Username already exists" });
+      } else {
+        res.status(400).json({ message: "Invalid registration", error });
+      }
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.sendStatus(200));
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Please log in" });
+    }
+    res.json(req.user);
+  });
+}
@@ -0,0 +1,22 @@
+import path from "path";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export function connectDatabase(databaseUrl = process.env.DATABASE_URL) {
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL must be set to use the postgres storage backend");
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl });
+  return drizzle({ client: pool, schema });
+}
+
+// Applies the SQL files generated by `npm run db:generate`
+export async function migrateDatabase(db: ReturnType<typeof connectDatabase>) {
+  await migrate(db, { migrationsFolder: path.resolve(process.cwd(), "migrations") });
+}
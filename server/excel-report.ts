@@ -0,0 +1,197 @@
+import ExcelJS from "exceljs";
+import type { ScannedQR } from "@shared/schema";
+import type { ExportOptions } from "@shared/data-export";
+import {
+  formatTemplateNumber,
+  templateColumnHeader,
+  AMOUNT_FIELDS,
+  DEFAULT_TEMPLATE_SETTINGS,
+  type TemplateField,
+} from "@shared/export-templates";
+import { readLogo, reportCellValue, reportExportTime, summarizeReport } from "./report-content";
+
+const COLUMN_WIDTHS: Record<TemplateField, number> = {
+  row: 8,
+  status: 12,
+  seller_name: 30,
+  vat_number: 20,
+  invoice_number: 20,
+  invoice_number_source: 18,
+  invoice_date: 20,
+  time_zone: 10,
+  subtotal: 18,
+  vat_amount: 18,
+  total_amount: 18,
+  zero_rated: 12,
+  notes: 40,
+};
+
+// Excel's printed header and footer treat '&' as a code
+const footerText = (text: string) => text.replace(/&/g, '&&');
+
+// The branded Excel report of the records; they are already filtered to the
+// export range. The template decides the columns and which blocks appear.
+export async function buildExcelReport(
+  dataToExport: ScannedQR[],
+  options: Omit<ExportOptions, 'filename' | 'exportRange'>
+): Promise<Buffer> {
+  const template = options.template ?? DEFAULT_TEMPLATE_SETTINGS;
+  const { branding } = template;
+  const amount = (value: number) => `${formatTemplateNumber(value, template.numberFormat)} SAR`;
+
+  // Create workbook using ExcelJS for better image support
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('ZatScan Report');
+
+  // Get logo as buffer for embedding
+  const logoBuffer = template.showLogo ? await readLogo() : null;
+
+  // Set row heights for logo space
+  worksheet.getRow(1).height = 25;
+  worksheet.getRow(2).height = 25;
+  worksheet.getRow(3).height = 25;
+
+  // Add logo if available in dedicated logo area
+  if (logoBuffer) {
+    const logoId = workbook.addImage({
+      buffer: logoBuffer,
+      extension: 'png',
+    });
+
+    // Add logo to worksheet in dedicated space (A1:C3)
+    worksheet.addImage(logoId, 'A1:C3');
+  }
+
+  // Add header with the branding, next to the logo or in its place
+  const bandStart = logoBuffer ? 4 : 1;
+  const bandEnd = Math.max(template.columns.length, bandStart + 6);
+  const bands = [
+    { text: branding.title, font: { bold: true, size: 16, color: { argb: 'FFFFFFFF' } }, fill: 'FF4472C4' },
+    { text: branding.subtitle, font: { bold: true, size: 12, color: { argb: 'FFFFFFFF' } }, fill: 'FF70AD47' },
+    { text: branding.tagline, font: { bold: true, size: 10, color: { argb: 'FF666666' } } },
+  ];
+  bands.forEach((band, index) => {
+    const cell = worksheet.getCell(index + 1, bandStart);
+    cell.value = band.text || null;
+    cell.font = band.font;
+    if (band.fill) {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: band.fill } };
+    }
+    cell.alignment = { horizontal: 'center', vertical: 'middle' };
+    worksheet.mergeCells(index + 1, bandStart, index + 1, bandEnd);
+  });
+
+  // Add company info with proper spacing; the export date and time sit at
+  // the right end of the bands
+  const infoColumn = bandEnd - 2;
+  const exportTime = reportExportTime();
+  worksheet.getCell('A5').value = branding.generatedBy || null;
+  worksheet.getCell('A5').font = { bold: true };
+  worksheet.getCell(5, infoColumn).value = 'Export Date:';
+  worksheet.getCell(5, infoColumn + 1).value = exportTime.date;
+
+  worksheet.getCell('A6').value = branding.website || null;
+  worksheet.getCell(6, infoColumn).value = 'Export Time:';
+  worksheet.getCell(6, infoColumn + 1).value = exportTime.time;
+
+  worksheet.getCell('A7').value = branding.description || null;
+  worksheet.getCell(7, infoColumn).value = branding.version || null;
+
+  // Add session details, three label and value pairs spread over the bands
+  let summaryStart = 9;
+  if (options.session) {
+    const { session } = options;
+    const pairStep = Math.floor(bandEnd / 3);
+    const setPair = (row: number, pair: number, label: string, value: string) => {
+      worksheet.getCell(row, 1 + pair * pairStep).value = label;
+      worksheet.getCell(row, 2 + pair * pairStep).value = value;
+    };
+    worksheet.getCell('A9').value = 'Session Details:';
+    worksheet.getCell('A9').font = { bold: true };
+
+    setPair(10, 0, 'Session:', session.name || session.sessionId);
+    setPair(10, 1, 'Client:', session.client || '-');
+    setPair(10, 2, 'Tax Period:', session.taxPeriod || '-');
+
+    setPair(11, 0, 'Cost Center:', session.costCenter || '-');
+    setPair(11, 1, 'Notes:', session.notes || '-');
+    const notesCell = worksheet.getCell(11, 2 + pairStep);
+    notesCell.alignment = { wrapText: true, vertical: 'top' };
+    worksheet.mergeCells(11, 2 + pairStep, 11, bandEnd);
+
+    summaryStart = 13;
+  }
+
+  // Add report summary
+  const summary = summarizeReport(dataToExport);
+  if (template.showSummary) {
+    worksheet.getCell(summaryStart, 1).value = 'Report Summary:';
+    worksheet.getCell(summaryStart, 1).font = { bold: true };
+
+    worksheet.getCell(summaryStart + 1, 1).value = 'Total Records:';
+    worksheet.getCell(summaryStart + 1, 2).value = summary.totalRecords;
+    worksheet.getCell(summaryStart + 1, 4).value = 'Valid Records:';
+    worksheet.getCell(summaryStart + 1, 5).value = summary.validRecords;
+    worksheet.getCell(summaryStart + 1, 7).value = 'Invalid Records:';
+    worksheet.getCell(summaryStart + 1, 8).value = summary.invalidRecords;
+  }
+
+  // Add data headers, one line per header language
+  const headerRow = template.showSummary ? summaryStart + 3 : summaryStart;
+
+  if (options.includeHeaders) {
+    template.columns.forEach((column, index) => {
+      const cell = worksheet.getCell(headerRow, index + 1);
+      cell.value = templateColumnHeader(column, template.headerLanguage).join('\n');
+      cell.font = { bold: true };
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE7E6E6' } };
+      cell.alignment = { wrapText: true, vertical: 'middle' };
+    });
+  }
+
+  // Add data rows
+  dataToExport.forEach((qr, index) => {
+    const rowIndex = headerRow + (options.includeHeaders ? 1 : 0) + index + 1;
+
+    template.columns.forEach((column, columnIndex) => {
+      const cell = worksheet.getCell(rowIndex, columnIndex + 1);
+      const value = reportCellValue(qr, column.field, index);
+      cell.value = value;
+      if (value instanceof Date) {
+        // Excel dates carry no time zone, so this is the invoice's local wall-clock time
+        cell.numFmt = 'yyyy-mm-dd hh:mm:ss';
+      } else if (typeof value === 'number' && AMOUNT_FIELDS.includes(column.field)) {
+        cell.numFmt = template.numberFormat;
+      }
+    });
+  });
+
+  // Add financial summary
+  if (template.showSummary && dataToExport.length > 0) {
+    const summaryRow = headerRow + (options.includeHeaders ? 1 : 0) + dataToExport.length + 3;
+
+    worksheet.getCell(summaryRow, 1).value = 'FINANCIAL SUMMARY';
+    worksheet.getCell(summaryRow, 1).font = { bold: true, size: 12 };
+
+    worksheet.getCell(summaryRow + 1, 1).value = 'Valid Invoices:';
+    worksheet.getCell(summaryRow + 1, 2).value = summary.validRecords;
+    worksheet.getCell(summaryRow + 1, 4).value = 'Total Subtotal:';
+    worksheet.getCell(summaryRow + 1, 5).value = amount(summary.totalSubtotal);
+    worksheet.getCell(summaryRow + 1, 7).value = 'Total VAT:';
+    worksheet.getCell(summaryRow + 1, 8).value = amount(summary.totalVAT);
+    worksheet.getCell(summaryRow + 1, 9).value = 'Grand Total:';
+    worksheet.getCell(summaryRow + 1, 10).value = amount(summary.totalAmount);
+
+    worksheet.getCell(summaryRow + 3, 1).value = branding.footer || null;
+    worksheet.getCell(summaryRow + 4, 1).value = branding.support || null;
+  }
+
+  // Page numbers go in the printed footer, where Excel fills them in
+  worksheet.headerFooter.oddFooter = `&L${footerText(branding.footer)}&RPage &P of &N`;
+
+  // Set column widths
+  worksheet.columns = template.columns.map(column => ({ width: COLUMN_WIDTHS[column.field] }));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { createStorage } from "./storage";
+import { scheduleTrashPurge } from "./trash";
+import { claimLegacySessions } from "./auth";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,7 +40,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  const storage = await createStorage(process.env.STORAGE_BACKEND);
+  const server = await registerRoutes(app, storage);
+  scheduleTrashPurge(storage, log);
+  await claimLegacySessions(storage, log);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,396 @@
+import PDFDocument from "pdfkit";
+import bidiFactory from "bidi-js";
+import type { ScannedQR } from "@shared/schema";
+import type { ExportOptions } from "@shared/data-export";
+import {
+  formatTemplateNumber,
+  templateColumnHeader,
+  AMOUNT_FIELDS,
+  DEFAULT_TEMPLATE_SETTINGS,
+  type ExportTemplateSettings,
+  type TemplateField,
+} from "@shared/export-templates";
+import { readLogo, reportCellText, reportCellValue, reportExportTime, reportFont, summarizeReport } from "./report-content";
+
+type Align = 'left' | 'center' | 'right';
+
+const bidi = bidiFactory();
+
+// Landscape A4, in points
+const MARGIN = 36;
+const FOOTER_HEIGHT = 24;
+const HEADER_LINE_HEIGHT = 9;
+const ROW_HEIGHT = 16;
+const CELL_PADDING = 3;
+
+// Relative widths; the template's columns are scaled to the width between
+// the margins
+const COLUMN_WEIGHTS: Record<TemplateField, number> = {
+  row: 30,
+  status: 45,
+  seller_name: 150,
+  vat_number: 85,
+  invoice_number: 85,
+  invoice_number_source: 70,
+  invoice_date: 85,
+  time_zone: 45,
+  subtotal: 58,
+  vat_amount: 58,
+  total_amount: 58,
+  zero_rated: 45,
+  notes: 150,
+};
+const RIGHT_ALIGNED_FIELDS: TemplateField[] = ['row', ...AMOUNT_FIELDS];
+// Names and notes may be Arabic, so they follow their own direction
+const AUTO_ALIGNED_FIELDS: TemplateField[] = ['seller_name', 'notes'];
+
+const COLORS = {
+  text: '#000000',
+  white: '#FFFFFF',
+  primary: '#4472C4',
+  secondary: '#70AD47',
+  muted: '#666666',
+  header: '#E7E6E6',
+  stripe: '#F5F5F5',
+  rule: '#BFBFBF',
+  invalid: '#C00000',
+};
+
+const SIGNATURE_ROLES = ['Prepared by', 'Reviewed by', 'Approved by'];
+const SIGNATURE_LINES = ['Name', 'Signature', 'Date'];
+
+// pdfkit lays out word by word unless features are given, which would put
+// the words of an Arabic run back in left-to-right order
+const WHOLE_RUN = { features: [] as PDFKit.Mixins.OpenTypeFeatures[] };
+
+interface TextRun {
+  text: string;
+  rtl: boolean;
+}
+
+/**
+ * Splits a line into runs of one direction, in the order they are drawn from
+ * left to right (Unicode bidi algorithm, rule L2). fontkit shapes Arabic and
+ * lays a run of it out right to left by itself, so right-to-left runs keep
+ * their logical order unless they have no right-to-left letters at all.
+ */
+function toVisualRuns(text: string): { runs: TextRun[]; rtl: boolean } {
+  const embedding = bidi.getEmbeddingLevels(text);
+  const { levels } = embedding;
+  const mirrored = bidi.getMirroredCharactersMap(text, levels);
+
+  const spans: { start: number; end: number; level: number }[] = [];
+  for (let start = 0, i = 1; i <= text.length; i++) {
+    if (i === text.length || levels[i] !== levels[start]) {
+      spans.push({ start, end: i, level: levels[start] });
+      start = i;
+    }
+  }
+
+  const highest = Math.max(0, ...spans.map(span => span.level));
+  const lowestOdd = Math.min(highest + 1, ...spans.map(span => span.level | 1));
+  for (let level = highest; level >= lowestOdd; level--) {
+    for (let i = 0; i < spans.length; ) {
+      if (spans[i].level < level) {
+        i++;
+        continue;
+      }
+      let j = i;
+      while (j < spans.length && spans[j].level >= level) j++;
+      spans.splice(i, j - i, ...spans.slice(i, j).reverse());
+      i = j;
+    }
+  }
+
+  const runs = spans.map(({ start, end, level }) => {
+    let run = '';
+    for (let i = start; i < end; i++) run += mirrored.get(i) ?? text[i];
+    const rtl = level % 2 === 1;
+    const hasRTLLetters = Array.from(run).some(char => ['R', 'AL'].includes(bidi.getBidiCharTypeName(char)));
+    return { text: rtl && !hasRTLLetters ? Array.from(run).reverse().join('') : run, rtl };
+  });
+  return { runs, rtl: (embedding.paragraphs[0]?.level ?? 0) % 2 === 1 };
+}
+
+// Shortens the text with an ellipsis until it fits the width
+function fitText(doc: PDFKit.PDFDocument, text: string, width: number): string {
+  if (doc.widthOfString(text, WHOLE_RUN) <= width) return text;
+  const chars = Array.from(text);
+  while (chars.length > 0 && doc.widthOfString(`${chars.join('').trimEnd()}…`, WHOLE_RUN) > width) chars.pop();
+  return `${chars.join('').trimEnd()}…`;
+}
+
+/**
+ * Draws one line of text in the current font, cut to the width. Right-to-left
+ * text, such as an Arabic seller name, is aligned right unless an alignment
+ * is given.
+ */
+function drawText(doc: PDFKit.PDFDocument, text: string, x: number, y: number, width: number, align?: Align) {
+  const { runs, rtl } = toVisualRuns(fitText(doc, text, width));
+  const widths = runs.map(run => doc.widthOfString(run.text, WHOLE_RUN));
+  const total = widths.reduce((sum, value) => sum + value, 0);
+  const alignment = align ?? (rtl ? 'right' : 'left');
+
+  let cursor = alignment === 'right' ? x + width - total : alignment === 'center' ? x + (width - total) / 2 : x;
+  runs.forEach((run, index) => {
+    doc.text(run.text, cursor, y, { ...WHOLE_RUN, lineBreak: false });
+    cursor += widths[index];
+  });
+}
+
+// Breaks the text into lines at spaces; a word wider than the line is cut
+function wrapText(doc: PDFKit.PDFDocument, text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && doc.widthOfString(candidate, WHOLE_RUN) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+function drawLabelValue(doc: PDFKit.PDFDocument, label: string, value: string, x: number, y: number, width: number) {
+  doc.font('Bold').fontSize(9).fillColor(COLORS.text);
+  const labelWidth = doc.widthOfString(label) + 4;
+  drawText(doc, label, x, y, labelWidth);
+  doc.font('Regular');
+  drawText(doc, value, x + labelWidth, y, width - labelWidth, 'left');
+}
+
+// The table's layout for a template: each column's width and header lines
+interface ReportTable {
+  template: ExportTemplateSettings;
+  widths: number[];
+  headers: string[][];
+  headerHeight: number;
+}
+
+function layoutTable(doc: PDFKit.PDFDocument, template: ExportTemplateSettings, width: number): ReportTable {
+  const weights = template.columns.map(column => COLUMN_WEIGHTS[column.field]);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map(weight => (weight / totalWeight) * width);
+
+  doc.font('Bold').fontSize(7.5);
+  const headers = template.columns.map((column, index) =>
+    templateColumnHeader(column, template.headerLanguage)
+      .flatMap(label => wrapText(doc, label, widths[index] - CELL_PADDING * 2))
+  );
+  const lines = Math.max(1, ...headers.map(header => header.length));
+  return { template, widths, headers, headerHeight: lines * HEADER_LINE_HEIGHT + 8 };
+}
+
+function columnAlign(field: TemplateField): Align | undefined {
+  if (RIGHT_ALIGNED_FIELDS.includes(field)) return 'right';
+  return AUTO_ALIGNED_FIELDS.includes(field) ? undefined : 'left';
+}
+
+function drawTableHeader(doc: PDFKit.PDFDocument, table: ReportTable, y: number) {
+  const left = doc.page.margins.left;
+  doc.rect(left, y, table.widths.reduce((sum, width) => sum + width, 0), table.headerHeight).fill(COLORS.header);
+  doc.font('Bold').fontSize(7.5).fillColor(COLORS.text);
+
+  let x = left;
+  table.template.columns.forEach((column, index) => {
+    const width = table.widths[index];
+    table.headers[index].forEach((line, lineIndex) => {
+      drawText(doc, line, x + CELL_PADDING, y + 3 + lineIndex * HEADER_LINE_HEIGHT, width - CELL_PADDING * 2,
+        columnAlign(column.field));
+    });
+    x += width;
+  });
+}
+
+function drawTableRow(doc: PDFKit.PDFDocument, table: ReportTable, qr: ScannedQR, index: number, y: number) {
+  const left = doc.page.margins.left;
+  if (index % 2 === 1) {
+    doc.rect(left, y, table.widths.reduce((sum, width) => sum + width, 0), ROW_HEIGHT).fill(COLORS.stripe);
+  }
+  doc.font('Regular').fontSize(8);
+
+  let x = left;
+  table.template.columns.forEach(({ field }, column) => {
+    const width = table.widths[column];
+    const value = reportCellText(reportCellValue(qr, field, index), field, table.template.numberFormat);
+    doc.fillColor(field === 'status' && qr.status !== 'valid' ? COLORS.invalid : COLORS.text);
+    drawText(doc, value, x + CELL_PADDING, y + 3, width - CELL_PADDING * 2, columnAlign(field));
+    x += width;
+  });
+}
+
+// Lines for the finance manager to sign off the report by hand
+function drawSignatureBlock(doc: PDFKit.PDFDocument, y: number) {
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const gap = 24;
+  const boxWidth = (width - gap * (SIGNATURE_ROLES.length - 1)) / SIGNATURE_ROLES.length;
+
+  doc.font('Bold').fontSize(12).fillColor(COLORS.text);
+  drawText(doc, 'APPROVAL', left, y, width);
+
+  SIGNATURE_ROLES.forEach((role, index) => {
+    const x = left + index * (boxWidth + gap);
+    doc.font('Bold').fontSize(9).fillColor(COLORS.text);
+    drawText(doc, role, x, y + 22, boxWidth);
+    SIGNATURE_LINES.forEach((line, lineIndex) => {
+      const lineY = y + 48 + lineIndex * 22;
+      doc.font('Regular').fontSize(8).fillColor(COLORS.muted);
+      drawText(doc, `${line}:`, x, lineY, 50);
+      doc.moveTo(x + 50, lineY + 10).lineTo(x + boxWidth, lineY + 10).lineWidth(0.5).stroke(COLORS.rule);
+    });
+  });
+}
+
+function drawFooters(doc: PDFKit.PDFDocument, footer: string, support: string) {
+  const { start, count } = doc.bufferedPageRange();
+  for (let page = start; page < start + count; page++) {
+    doc.switchToPage(page);
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const y = doc.page.height - doc.page.margins.bottom - FOOTER_HEIGHT + 8;
+
+    doc.moveTo(left, y - 4).lineTo(left + width, y - 4).lineWidth(0.5).stroke(COLORS.rule);
+    doc.font('Regular').fontSize(8).fillColor(COLORS.muted);
+    drawText(doc, footer, left, y, width / 3, 'left');
+    drawText(doc, support, left + width / 3, y, width / 3, 'center');
+    drawText(doc, `Page ${page - start + 1} of ${count}`, left + (width * 2) / 3, y, width / 3, 'right');
+  }
+}
+
+// The Excel report's content as a printable document with page numbers and
+// an approval block; the records are already filtered to the export range
+export async function buildPdfReport(
+  dataToExport: ScannedQR[],
+  options: Omit<ExportOptions, 'filename' | 'exportRange'>
+): Promise<Buffer> {
+  const template = options.template ?? DEFAULT_TEMPLATE_SETTINGS;
+  const { branding } = template;
+  const amount = (value: number) => `${formatTemplateNumber(value, template.numberFormat)} SAR`;
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    layout: 'landscape',
+    margin: MARGIN,
+    bufferPages: true,
+    info: { Title: branding.subtitle || branding.title, Author: 'ZatScan', Creator: 'ZatScan' },
+  });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  doc.registerFont('Regular', reportFont('regular'));
+  doc.registerFont('Bold', reportFont('bold'));
+
+  const left = MARGIN;
+  const width = doc.page.width - MARGIN * 2;
+  const bottom = () => doc.page.height - MARGIN - FOOTER_HEIGHT;
+
+  // Header: logo, then the branding bands, which take the logo's place
+  // when it is left out
+  const logo = template.showLogo ? await readLogo() : null;
+  if (logo) {
+    doc.image(logo, left, MARGIN, { fit: [140, 66], valign: 'center' });
+  }
+  const bandX = logo ? left + 160 : left;
+  const bandWidth = logo ? width - 160 : width;
+  doc.rect(bandX, MARGIN, bandWidth, 24).fill(COLORS.primary);
+  doc.font('Bold').fontSize(14).fillColor(COLORS.white);
+  drawText(doc, branding.title, bandX, MARGIN + 3, bandWidth, 'center');
+  doc.rect(bandX, MARGIN + 26, bandWidth, 20).fill(COLORS.secondary);
+  doc.fontSize(11).fillColor(COLORS.white);
+  drawText(doc, branding.subtitle, bandX, MARGIN + 28, bandWidth, 'center');
+  doc.fontSize(9).fillColor(COLORS.muted);
+  drawText(doc, branding.tagline, bandX, MARGIN + 50, bandWidth, 'center');
+
+  let y = MARGIN + 80;
+  const exportTime = reportExportTime();
+  doc.font('Bold').fontSize(9).fillColor(COLORS.text);
+  drawText(doc, branding.generatedBy, left, y, width / 2);
+  drawLabelValue(doc, 'Export Date:', exportTime.date, left + width * 0.7, y, width * 0.3);
+  doc.font('Regular').fontSize(9);
+  drawText(doc, branding.website, left, y + 13, width / 2);
+  drawLabelValue(doc, 'Export Time:', exportTime.time, left + width * 0.7, y + 13, width * 0.3);
+  doc.font('Regular').fontSize(9);
+  drawText(doc, branding.description, left, y + 26, width / 2);
+  drawText(doc, branding.version, left + width * 0.7, y + 26, width * 0.3);
+  y += 50;
+
+  if (options.session) {
+    const { session } = options;
+    doc.font('Bold').fontSize(10).fillColor(COLORS.text);
+    drawText(doc, 'Session Details:', left, y, width);
+    drawLabelValue(doc, 'Session:', session.name || session.sessionId, left, y + 15, width / 4);
+    drawLabelValue(doc, 'Client:', session.client || '-', left + width / 4, y + 15, width / 4);
+    drawLabelValue(doc, 'Tax Period:', session.taxPeriod || '-', left + width / 2, y + 15, width / 4);
+    drawLabelValue(doc, 'Cost Center:', session.costCenter || '-', left + (width * 3) / 4, y + 15, width / 4);
+    drawLabelValue(doc, 'Notes:', (session.notes || '-').replace(/\s+/g, ' '), left, y + 29, width);
+    y += 50;
+  }
+
+  const summary = summarizeReport(dataToExport);
+  if (template.showSummary) {
+    doc.font('Bold').fontSize(10).fillColor(COLORS.text);
+    drawText(doc, 'Report Summary:', left, y, width);
+    drawLabelValue(doc, 'Total Records:', String(summary.totalRecords), left, y + 15, width / 3);
+    drawLabelValue(doc, 'Valid Records:', String(summary.validRecords), left + width / 3, y + 15, width / 3);
+    drawLabelValue(doc, 'Invalid Records:', String(summary.invalidRecords), left + (width * 2) / 3, y + 15, width / 3);
+    y += 38;
+  }
+
+  // The table continues on as many pages as it needs, repeating its header
+  const table = layoutTable(doc, template, width);
+  if (options.includeHeaders) {
+    drawTableHeader(doc, table, y);
+    y += table.headerHeight;
+  }
+  dataToExport.forEach((qr, index) => {
+    if (y + ROW_HEIGHT > bottom()) {
+      doc.addPage();
+      y = MARGIN;
+      if (options.includeHeaders) {
+        drawTableHeader(doc, table, y);
+        y += table.headerHeight;
+      }
+    }
+    drawTableRow(doc, table, qr, index, y);
+    y += ROW_HEIGHT;
+  });
+  doc.moveTo(left, y).lineTo(left + width, y).lineWidth(0.5).stroke(COLORS.rule);
+
+  if (template.showSummary && dataToExport.length > 0) {
+    if (y + 60 > bottom()) {
+      doc.addPage();
+      y = MARGIN;
+    } else {
+      y += 20;
+    }
+    doc.font('Bold').fontSize(12).fillColor(COLORS.text);
+    drawText(doc, 'FINANCIAL SUMMARY', left, y, width);
+    drawLabelValue(doc, 'Valid Invoices:', String(summary.validRecords), left, y + 20, width / 4);
+    drawLabelValue(doc, 'Total Subtotal:', amount(summary.totalSubtotal), left + width / 4, y + 20, width / 4);
+    drawLabelValue(doc, 'Total VAT:', amount(summary.totalVAT), left + width / 2, y + 20, width / 4);
+    drawLabelValue(doc, 'Grand Total:', amount(summary.totalAmount), left + (width * 3) / 4, y + 20, width / 4);
+    y += 40;
+  }
+
+  const signatureHeight = 120;
+  if (y + 20 + signatureHeight > bottom()) {
+    doc.addPage();
+    y = MARGIN;
+  } else {
+    y += 20;
+  }
+  drawSignatureBlock(doc, y);
+
+  drawFooters(doc, branding.footer, branding.support);
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { scannedQRInputSchema, type ScannedQRInput } from "@shared/schema";
+import { getAmountRules, processScannedQR } from "./qr-processing";
+
+const manualEntry = (fields: Partial<ScannedQRInput> = {}): ScannedQRInput => ({
+  sessionId: "s1",
+  rawData: "manual-entry",
+  isManualEntry: true,
+  sellerName: "Al Noor Trading",
+  vatNumber: "300000000000003",
+  invoiceDate: "2024-05-01T10:15:00+03:00",
+  subtotal: "100.00",
+  vatAmount: "15.00",
+  totalAmount: "115.00",
+  ...fields,
+});
+
+const issuePaths = (input: unknown) => {
+  const result = scannedQRInputSchema.safeParse(input);
+  return result.success ? [] : result.error.issues.map(issue => issue.path.join("."));
+};
+
+describe("scannedQRInputSchema", () => {
+  it("accepts a complete manual entry", () => {
+    expect(issuePaths(manualEntry())).toEqual([]);
+    expect(issuePaths(manualEntry({ subtotal: "100", vatAmount: null }))).toEqual([]);
+  });
+
+  it("requires a seller and a total on manual entries", () => {
+    expect(issuePaths(manualEntry({ sellerName: " ", totalAmount: "" }))).toEqual(["sellerName", "totalAmount"]);
+    expect(issuePaths(manualEntry({ sellerName: undefined, totalAmount: null }))).toEqual(["sellerName", "totalAmount"]);
+  });
+
+  it("rejects manual amounts that are not numbers", () => {
+    expect(issuePaths(manualEntry({ subtotal: "abc", totalAmount: "xyz" }))).toEqual(["subtotal", "totalAmount"]);
+    expect(issuePaths(manualEntry({ vatAmount: "15.005" }))).toEqual(["vatAmount"]);
+  });
+
+  it("leaves scanned codes to the decoder", () => {
+    expect(issuePaths({ sessionId: "s1", rawData: "AQZTZWxsZXI=" })).toEqual([]);
+  });
+});
+
+describe("processScannedQR for manual entries", () => {
+  it("saves a valid entry with its amount checks", () => {
+    expect(processScannedQR(manualEntry())).toMatchObject({ status: "valid", amountFlags: [], invoiceTimezone: "+03:00" });
+  });
+
+  it("rejects an entry without a seller or with amounts that are not numbers", () => {
+    expect(() => processScannedQR(manualEntry({ sellerName: "", subtotal: "abc", totalAmount: "xyz" }))).toThrow(z.ZodError);
+  });
+
+  it("rejects an invoice date it cannot read", () => {
+    expect(() => processScannedQR(manualEntry({ invoiceDate: "someday" }))).toThrow("Invalid invoice date");
+  });
+
+  it("checks totals with the configured tolerance", () => {
+    const entry = manualEntry({ totalAmount: "115.50" });
+    expect(() => processScannedQR(entry)).toThrow(z.ZodError);
+    expect(processScannedQR(entry, getAmountRules("1", undefined))).toMatchObject({ status: "valid" });
+  });
+
+  it("uses the zero-rated default when the entry does not say", () => {
+    const entry = manualEntry({ vatAmount: "0.00", totalAmount: "100.00" });
+    expect(processScannedQR(entry, getAmountRules(undefined, "true"))).toMatchObject({ zeroRated: true, amountFlags: [] });
+    expect(processScannedQR({ ...entry, zeroRated: false }, getAmountRules(undefined, "true"))).toMatchObject({
+      zeroRated: false,
+      amountFlags: ["vat_rate_mismatch"],
+    });
+  });
+});
+
+describe("getAmountRules", () => {
+  it("reads the tolerance and the zero-rated default", () => {
+    expect(getAmountRules("0.5", "yes")).toEqual({ vatRate: 0.15, tolerance: 0.5, zeroRated: true });
+  });
+
+  it("falls back to the defaults on missing or invalid values", () => {
+    expect(getAmountRules(undefined, undefined)).toEqual({ vatRate: 0.15, tolerance: 0.05, zeroRated: false });
+    expect(getAmountRules("-1", "no")).toEqual({ vatRate: 0.15, tolerance: 0.05, zeroRated: false });
+    expect(getAmountRules("lots", "")).toMatchObject({ tolerance: 0.05, zeroRated: false });
+  });
+});
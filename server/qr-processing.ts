@@ -0,0 +1,186 @@
+import { z } from "zod";
+import { scannedQRInputSchema, type InsertScannedQR, type ScannedQR, type ScannedQRInput, type ScannedQREdit, type EditableQRField, type InsertScanRecordChange } from "@shared/schema";
+import { decodeZATCAQR } from "@shared/zatca-parser";
+import { verifyZATCASignature } from "@shared/zatca-signature";
+import { validateVatNumber, VAT_NUMBER_ERROR_MESSAGES, type VatNumberError } from "@shared/vat-number";
+import { checkInvoiceAmounts, checkRecordAmounts, AMOUNT_FLAG_MESSAGES, DEFAULT_AMOUNT_RULES, type AmountFlag, type AmountRuleOptions } from "@shared/invoice-rules";
+import { parseInvoiceTimestamp, toInvoiceTimestampText } from "@shared/invoice-date";
+
+// The amount rules with AMOUNT_TOLERANCE (in SAR) and ZERO_RATED_DEFAULT
+// applied; the default marks records as zero-rated unless they say otherwise
+export function getAmountRules(
+  tolerance = process.env.AMOUNT_TOLERANCE,
+  zeroRated = process.env.ZERO_RATED_DEFAULT,
+): AmountRuleOptions {
+  const toleranceValue = Number(tolerance);
+  return {
+    ...DEFAULT_AMOUNT_RULES,
+    tolerance: tolerance && Number.isFinite(toleranceValue) && toleranceValue >= 0 ? toleranceValue : DEFAULT_AMOUNT_RULES.tolerance,
+    zeroRated: zeroRated ? ['true', '1', 'yes'].includes(zeroRated.trim().toLowerCase()) : DEFAULT_AMOUNT_RULES.zeroRated,
+  };
+}
+
+const toAmount = (value: number | undefined) =>
+  value === undefined || isNaN(value) ? null : value.toFixed(2);
+
+// Scanned codes: every invoice field comes from rawData, whatever the client sent
+function processScannedCode(input: ScannedQRInput, rules: AmountRuleOptions): InsertScannedQR {
+  const { data, diagnostics } = decodeZATCAQR(input.rawData);
+  const zeroRated = input.zeroRated ?? rules.zeroRated;
+
+  return {
+    sessionId: input.sessionId,
+    rawData: input.rawData,
+    isManualEntry: false,
+    notes: input.notes ?? null,
+    status: data ? "valid" : "invalid",
+    sellerName: data?.sellerName || null,
+    vatNumber: data?.vatNumber || null,
+    vatNumberError: data ? validateVatNumber(data.vatNumber) : null,
+    // The simplified QR format has no invoice number; one supplied alongside
+    // the scan was typed in by a person
+    invoiceNumber: input.invoiceNumber || null,
+    invoiceNumberSource: input.invoiceNumber ? "manual" : "missing",
+    invoiceDate: data?.invoiceDate || null,
+    invoiceTimezone: data?.invoiceTimezone || null,
+    subtotal: toAmount(data?.subtotal),
+    vatAmount: toAmount(data?.vatAmount),
+    totalAmount: toAmount(data?.totalAmount),
+    zeroRated,
+    amountFlags: data ? checkInvoiceAmounts(data, { ...rules, zeroRated }) : null,
+    invoiceHash: data?.invoiceHash || null,
+    signature: data?.signature || null,
+    publicKey: data?.publicKey || null,
+    stampSignature: data?.stampSignature || null,
+    signatureStatus: data ? verifyZATCASignature(data) : null,
+    parseDiagnostics: diagnostics.length > 0 ? diagnostics : null,
+  };
+}
+
+// Manual entries must pass the same checks as the manual entry form
+function assertManualEntryValid(vatNumberError: VatNumberError | null, amountFlags: AmountFlag[]) {
+  const issues: z.ZodIssue[] = [];
+  if (vatNumberError) {
+    issues.push({ code: z.ZodIssueCode.custom, path: ["vatNumber"], message: VAT_NUMBER_ERROR_MESSAGES[vatNumberError] });
+  }
+  if (amountFlags.includes("total_mismatch")) {
+    issues.push({ code: z.ZodIssueCode.custom, path: ["totalAmount"], message: AMOUNT_FLAG_MESSAGES.total_mismatch });
+  }
+  if (issues.length > 0) {
+    throw new z.ZodError(issues);
+  }
+}
+
+// Manual entries: the typed-in fields are kept. The invoice date is read like
+// an edited one, so its offset is kept as the invoice's time zone.
+function processManualEntry(input: ScannedQRInput, rules: AmountRuleOptions): InsertScannedQR {
+  // The route has parsed the input already; other callers may not have
+  scannedQRInputSchema.parse(input);
+  const timestamp = input.invoiceDate ? parseInvoiceTimestamp(input.invoiceDate) : null;
+  if (input.invoiceDate && !timestamp) {
+    throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: ["invoiceDate"], message: "Invalid invoice date" }]);
+  }
+  const vatNumberError = validateVatNumber(input.vatNumber);
+  const zeroRated = input.zeroRated ?? rules.zeroRated;
+  const amountFlags = checkRecordAmounts(input, { ...rules, zeroRated });
+  assertManualEntryValid(vatNumberError, amountFlags);
+
+  return {
+    ...input,
+    zeroRated,
+    invoiceDate: timestamp?.date ?? null,
+    invoiceTimezone: timestamp?.timezone ?? null,
+    isManualEntry: true,
+    status: "valid",
+    vatNumberError: null,
+    invoiceNumberSource: input.invoiceNumber ? "manual" : "missing",
+    amountFlags,
+    invoiceHash: null,
+    signature: null,
+    publicKey: null,
+    stampSignature: null,
+    signatureStatus: "unsigned",
+    parseDiagnostics: null,
+  };
+}
+
+/**
+ * Derives the stored record from what a client submitted. The server is the
+ * only place that decides status and validation results, so API scripts and
+ * old browser builds cannot save inconsistent records.
+ */
+export function processScannedQR(input: ScannedQRInput, rules = getAmountRules()): InsertScannedQR {
+  return input.isManualEntry ? processManualEntry(input, rules) : processScannedCode(input, rules);
+}
+
+function historyValue(qr: Pick<ScannedQR, EditableQRField | 'invoiceTimezone'>, field: EditableQRField): string | null {
+  if (field === 'invoiceDate') return toInvoiceTimestampText(qr.invoiceDate, qr.invoiceTimezone);
+  const value = qr[field];
+  return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Applies a correction to a saved record. Returns the columns to update and
+ * one history entry per field whose value actually changed. VAT number and
+ * amount checks are re-run; manual entries must still pass them.
+ */
+export function applyScannedQREdit(
+  existing: ScannedQR,
+  edit: ScannedQREdit,
+  rules = getAmountRules(),
+): { updates: Partial<InsertScannedQR>; changes: Omit<InsertScanRecordChange, 'changedBy'>[] } {
+  const next = { ...existing };
+  const fields = (Object.keys(edit) as EditableQRField[]).filter(field => edit[field] !== undefined);
+
+  for (const field of fields) {
+    if (field === 'invoiceDate') {
+      if (edit.invoiceDate) {
+        const timestamp = parseInvoiceTimestamp(edit.invoiceDate);
+        if (!timestamp) {
+          throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: ["invoiceDate"], message: "Invalid invoice date" }]);
+        }
+        next.invoiceDate = timestamp.date;
+        next.invoiceTimezone = timestamp.timezone;
+      } else {
+        next.invoiceDate = null;
+        next.invoiceTimezone = null;
+      }
+    } else {
+      (next as Record<string, unknown>)[field] = edit[field];
+    }
+  }
+
+  const changes = fields
+    .map(field => ({ field, oldValue: historyValue(existing, field), newValue: historyValue(next, field) }))
+    .filter(change => change.oldValue !== change.newValue)
+    .map(change => ({ ...change, qrId: existing.id, sessionId: existing.sessionId }));
+  const changed = new Set(changes.map(change => change.field));
+
+  const updates: Partial<InsertScannedQR> = {};
+  for (const field of Array.from(changed) as EditableQRField[]) {
+    (updates as Record<string, unknown>)[field] = next[field];
+  }
+  if (changed.has('invoiceDate')) {
+    updates.invoiceTimezone = next.invoiceTimezone;
+  }
+  if (changed.has('invoiceNumber')) {
+    updates.invoiceNumberSource = next.invoiceNumber ? "manual" : "missing";
+  }
+
+  const vatNumberError = changed.has('vatNumber')
+    ? validateVatNumber(next.vatNumber)
+    : existing.vatNumberError as VatNumberError | null;
+  const amountFields: EditableQRField[] = ['subtotal', 'vatAmount', 'totalAmount', 'zeroRated'];
+  const amountsChanged = amountFields.some(field => changed.has(field));
+  const amountFlags = amountsChanged
+    ? checkRecordAmounts(next, { ...rules, zeroRated: next.zeroRated ?? false })
+    : existing.amountFlags ?? [];
+
+  if (existing.isManualEntry && (changed.has('vatNumber') || amountsChanged)) {
+    assertManualEntryValid(vatNumberError, amountFlags);
+  }
+  if (changed.has('vatNumber')) updates.vatNumberError = vatNumberError;
+  if (amountsChanged) updates.amountFlags = amountFlags;
+
+  return { updates, changes };
+}
@@ -0,0 +1,8 @@
+import { describe, expect, it } from "vitest";
+import { reportExportTime } from "./report-content";
+
+describe("reportExportTime", () => {
+  it("gives Saudi local time whatever the server's time zone", () => {
+    expect(reportExportTime(new Date("2024-05-01T22:30:05Z"))).toEqual({ date: "2024-05-02", time: "01:30:05 +03:00" });
+  });
+});
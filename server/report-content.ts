@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+import type { ScannedQR } from "@shared/schema";
+import { getInvoiceNumberSource, INVOICE_NUMBER_SOURCE_LABELS } from "@shared/invoice-number";
+import { formatInvoiceTimezone, toInvoiceWallClock } from "@shared/invoice-date";
+import {
+  AMOUNT_FIELDS,
+  formatTemplateNumber,
+  type NumberFormat,
+  type TemplateField,
+} from "@shared/export-templates";
+
+// Figures and cell values shared by the Excel and PDF reports, so both show
+// the same table and totals for a template
+
+const ASSETS_DIR = path.resolve(import.meta.dirname, "..", "attached_assets");
+
+// The report is still generated when the logo is not deployed
+export async function readLogo(): Promise<Buffer | null> {
+  try {
+    return await fs.promises.readFile(path.join(ASSETS_DIR, "zatscan-color_1750578368450.png"));
+  } catch (error) {
+    console.warn('Could not load logo image:', error);
+    return null;
+  }
+}
+
+// Cairo has both Latin and Arabic glyphs. Without it the PDF falls back to
+// Helvetica, which cannot show Arabic seller names.
+export function reportFont(weight: 'regular' | 'bold'): string {
+  const file = path.join(ASSETS_DIR, "fonts", weight === 'bold' ? "Cairo-Bold.ttf" : "Cairo-Regular.ttf");
+  if (fs.existsSync(file)) return file;
+  return weight === 'bold' ? 'Helvetica-Bold' : 'Helvetica';
+}
+
+// When the report was made in Saudi local time, whatever the server's locale
+// and time zone: YYYY-MM-DD and HH:MM:SS with the offset
+export function reportExportTime(now = new Date()): { date: string; time: string } {
+  const local = toInvoiceWallClock(now, null).toISOString();
+  return { date: local.slice(0, 10), time: `${local.slice(11, 19)} ${formatInvoiceTimezone(null)}` };
+}
+
+export interface ReportSummary {
+  totalRecords: number;
+  validRecords: number;
+  invalidRecords: number;
+  totalSubtotal: number;
+  totalVAT: number;
+  totalAmount: number;
+}
+
+// Counts cover every record; amounts only the valid ones
+export function summarizeReport(records: ScannedQR[]): ReportSummary {
+  const validQRs = records.filter(qr => qr.status === 'valid');
+  const totalAmount = validQRs.reduce((sum, qr) =>
+    sum + (qr.totalAmount ? parseFloat(qr.totalAmount) : 0), 0
+  );
+  const totalVAT = validQRs.reduce((sum, qr) =>
+    sum + (qr.vatAmount ? parseFloat(qr.vatAmount) : 0), 0
+  );
+  return {
+    totalRecords: records.length,
+    validRecords: validQRs.length,
+    invalidRecords: records.length - validQRs.length,
+    totalSubtotal: totalAmount - totalVAT,
+    totalVAT,
+    totalAmount,
+  };
+}
+
+// Amounts are numbers and invoice dates the invoice's local wall-clock time;
+// '-' stands for a missing value
+export type ReportCell = string | number | Date;
+
+export function reportCellValue(qr: ScannedQR, field: TemplateField, index: number): ReportCell {
+  const amount = (value: string | null) => (value ? parseFloat(value) : '-');
+  switch (field) {
+    case 'row':
+      return index + 1;
+    case 'status':
+      return qr.status === 'valid' ? 'Valid' : 'Invalid';
+    case 'seller_name':
+      return qr.sellerName || '-';
+    case 'vat_number':
+      return qr.vatNumber || '-';
+    case 'invoice_number':
+      return qr.invoiceNumber || 'TO BE FILLED';
+    case 'invoice_number_source':
+      return INVOICE_NUMBER_SOURCE_LABELS[getInvoiceNumberSource(qr)];
+    case 'invoice_date':
+      return qr.invoiceDate ? toInvoiceWallClock(qr.invoiceDate, qr.invoiceTimezone) : '-';
+    case 'time_zone':
+      return qr.invoiceDate ? formatInvoiceTimezone(qr.invoiceTimezone) : '-';
+    case 'subtotal':
+      return amount(qr.subtotal);
+    case 'vat_amount':
+      return amount(qr.vatAmount);
+    case 'total_amount':
+      return amount(qr.totalAmount);
+    case 'zero_rated':
+      return qr.zeroRated ? 'Yes' : 'No';
+    case 'notes':
+      return qr.notes || '-';
+  }
+}
+
+export function reportCellText(value: ReportCell, field: TemplateField, numberFormat: NumberFormat): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 19).replace('T', ' ');
+  if (typeof value === 'number') {
+    return AMOUNT_FIELDS.includes(field) ? formatTemplateNumber(value, numberFormat) : String(value);
+  }
+  return value;
+}
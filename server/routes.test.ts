@@ -0,0 +1,209 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { DEFAULT_TEMPLATE_SETTINGS } from "@shared/export-templates";
+import { startTestApp, testQRCode, type TestClient } from "./test-app";
+import { purgeExpiredTrash } from "./trash";
+
+const journalSettings = { accounts: { expense: "5100", inputVat: "1410", payable: "2100" }, sellers: [] };
+
+describe("organizations", () => {
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+  let alice: TestClient;
+  let bob: TestClient;
+  let qrId: number;
+  let templateId: number;
+  let profileId: number;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    alice = await app.register("alice");
+    bob = await app.register("bob");
+
+    await alice("POST", "/api/sessions", { sessionId: "alice-1", name: "March" });
+    qrId = (await alice("POST", "/api/qr-codes", { sessionId: "alice-1", rawData: testQRCode("Alpha") })).body.id;
+    templateId = (await alice("POST", "/api/export-templates", { name: "Alice", settings: DEFAULT_TEMPLATE_SETTINGS })).body.id;
+    profileId = (await alice("POST", "/api/journal-profiles", { name: "Alice", settings: journalSettings })).body.id;
+    await bob("POST", "/api/sessions", { sessionId: "bob-1" });
+  });
+
+  afterAll(() => app.close());
+
+  it("keeps another organization's sessions out of the list", async () => {
+    expect((await bob("GET", "/api/sessions")).body.map((s: { sessionId: string }) => s.sessionId)).toEqual(["bob-1"]);
+  });
+
+  it.each([
+    ["GET", "/api/sessions/alice-1"],
+    ["PATCH", "/api/sessions/alice-1", { name: "Taken" }],
+    ["POST", "/api/sessions/alice-1/status", { status: "locked" }],
+    ["GET", "/api/sessions/alice-1/status-history"],
+    ["GET", "/api/qr-codes/alice-1"],
+    ["POST", "/api/qr-codes", { sessionId: "alice-1", rawData: testQRCode("Beta") }],
+    ["POST", "/api/sessions", { sessionId: "alice-1" }],
+    ["DELETE", "/api/sessions/alice-1/qr-codes"],
+    ["GET", "/api/sessions/alice-1/trash"],
+    ["POST", "/api/sessions/alice-1/trash/restore", { ids: [1] }],
+    ["POST", "/api/sessions/bob-1/merge", { sourceSessionId: "alice-1" }],
+    ["POST", "/api/sessions/alice-1/split", { by: "seller" }],
+    ["GET", "/api/sessions/alice-1/stats"],
+    ["GET", "/api/sessions/alice-1/export"],
+  ])("answers 404 for %s %s in another organization", async (method, url, body?) => {
+    expect((await bob(method, url, body)).status).toBe(404);
+  });
+
+  it.each([
+    ["PATCH", "/invoice-number", { invoiceNumber: "X-1" }],
+    ["PATCH", "", { notes: "Taken" }],
+    ["GET", "/history"],
+    ["DELETE", ""],
+  ])("answers 404 for %s on another organization's QR code%s", async (method, path, body?) => {
+    expect((await bob(method, `/api/qr-codes/${qrId}${path}`, body)).status).toBe(404);
+  });
+
+  it("does not move another organization's QR codes", async () => {
+    const { body } = await bob("POST", "/api/qr-codes/move", { ids: [qrId], targetSessionId: "bob-1" });
+    expect(body).toMatchObject({ moved: [], conflicts: [{ id: qrId, reason: "not_found" }] });
+  });
+
+  it("keeps templates and journal profiles to their organization", async () => {
+    expect((await bob("GET", "/api/export-templates")).body).toEqual([]);
+    expect((await bob("PATCH", `/api/export-templates/${templateId}`, { name: "Taken" })).status).toBe(404);
+    expect((await bob("DELETE", `/api/export-templates/${templateId}`)).status).toBe(404);
+    expect((await bob("GET", "/api/journal-profiles")).body).toEqual([]);
+    expect((await bob("PATCH", `/api/journal-profiles/${profileId}`, { name: "Taken" })).status).toBe(404);
+    expect((await bob("DELETE", `/api/journal-profiles/${profileId}`)).status).toBe(404);
+  });
+
+  it("keeps another organization's audit entries out of the log", async () => {
+    const { body } = await bob("GET", "/api/audit-log");
+    expect(body.every((entry: { sessionId: string | null; actor: string }) => entry.sessionId !== "alice-1" && entry.actor !== "alice")).toBe(true);
+  });
+
+  it("leaves the owner's data as it was", async () => {
+    expect((await alice("GET", "/api/sessions/alice-1")).body).toMatchObject({ name: "March", status: "open" });
+    expect((await alice("GET", "/api/qr-codes/alice-1")).body).toMatchObject([{ id: qrId, notes: null }]);
+    expect((await alice("GET", "/api/export-templates")).body).toMatchObject([{ id: templateId, name: "Alice" }]);
+    expect((await alice("GET", "/api/journal-profiles")).body).toMatchObject([{ id: profileId, name: "Alice" }]);
+  });
+});
+
+describe("roles", () => {
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+  let members: Record<string, TestClient>;
+  let qrId: number;
+
+  const requests: Record<string, [string, string, unknown?][]> = {
+    edit: [
+      ["PATCH", "/api/sessions/team-1", { name: "Renamed" }],
+      ["PATCH", "/api/qr-codes/:id", { notes: "Changed" }],
+      ["DELETE", "/api/qr-codes/:id"],
+      ["POST", "/api/sessions/team-1/split", { by: "seller" }],
+    ],
+    export: [
+      ["GET", "/api/sessions/team-1/export"],
+      ["GET", "/api/audit-log/export"],
+      ["POST", "/api/export-templates", { name: "Mine", settings: DEFAULT_TEMPLATE_SETTINGS }],
+      ["POST", "/api/journal-profiles", { name: "Mine", settings: journalSettings }],
+    ],
+    lock: [["POST", "/api/sessions/team-1/status", { status: "locked" }]],
+    manage: [
+      ["PATCH", "/api/organization", { name: "Taken" }],
+      ["POST", "/api/organization/members", { username: "mallory", password: "password1", role: "admin" }],
+      ["GET", "/api/api-keys"],
+      ["POST", "/api/api-keys", { name: "Mine", scopes: ["scan"] }],
+    ],
+  };
+
+  const denied: [string, string][] = [
+    ...["edit", "export", "lock", "manage"].map(permission => ["scanner", permission] as [string, string]),
+    ...["export", "lock", "manage"].map(permission => ["reviewer", permission] as [string, string]),
+    ["accountant", "manage"],
+  ];
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    const admin = await app.register("admin");
+    members = {
+      scanner: await app.addMember(admin, "sam", "scanner"),
+      reviewer: await app.addMember(admin, "rita", "reviewer"),
+      accountant: await app.addMember(admin, "ali", "accountant"),
+    };
+    await admin("POST", "/api/sessions", { sessionId: "team-1", name: "March" });
+    qrId = (await admin("POST", "/api/qr-codes", { sessionId: "team-1", rawData: testQRCode("Alpha") })).body.id;
+  });
+
+  afterAll(() => app.close());
+
+  it.each(denied)("answers 403 to the %s role on %s routes", async (role, permission) => {
+    for (const [method, url, body] of requests[permission]) {
+      const { status } = await members[role](method, url.replace(":id", String(qrId)), body);
+      expect(status, `${method} ${url}`).toBe(403);
+    }
+  });
+
+  it("leaves the session as it was", async () => {
+    expect((await members.scanner("GET", "/api/sessions/team-1")).body).toMatchObject({ name: "March", status: "open" });
+    expect((await members.scanner("GET", "/api/qr-codes/team-1")).body).toMatchObject([{ id: qrId, notes: null }]);
+  });
+
+  it("lets a scanner add scans", async () => {
+    const { status } = await members.scanner("POST", "/api/qr-codes", { sessionId: "team-1", rawData: testQRCode("Beta") });
+    expect(status).toBe(201);
+  });
+
+  it("lets a reviewer edit and an accountant export", async () => {
+    expect((await members.reviewer("PATCH", `/api/qr-codes/${qrId}`, { notes: "Checked" })).status).toBe(200);
+    expect((await members.accountant("GET", "/api/sessions/team-1/export")).status).toBe(200);
+  });
+
+  it("records which member changed the session status", async () => {
+    const { id } = (await members.accountant("GET", "/api/user")).body;
+    expect((await members.accountant("POST", "/api/sessions/team-1/status", { status: "locked" })).status).toBe(200);
+    expect((await members.scanner("GET", "/api/sessions/team-1/status-history")).body).toMatchObject([
+      { fromStatus: "open", toStatus: "locked", changedBy: id },
+    ]);
+  });
+});
+
+describe("trash purge", () => {
+  it("shows each organization the purge of its own records", async () => {
+    const app = await startTestApp();
+    try {
+      const alice = await app.register("alice");
+      const bob = await app.register("bob");
+      await alice("POST", "/api/sessions", { sessionId: "alice-1" });
+      await bob("POST", "/api/sessions", { sessionId: "bob-1" });
+      const aliceQR = (await alice("POST", "/api/qr-codes", { sessionId: "alice-1", rawData: testQRCode("Alpha") })).body.id;
+      const bobQR = (await bob("POST", "/api/qr-codes", { sessionId: "bob-1", rawData: testQRCode("Beta") })).body.id;
+      await alice("DELETE", `/api/qr-codes/${aliceQR}`);
+      await bob("DELETE", `/api/qr-codes/${bobQR}`);
+
+      // A negative retention purges everything in the trash
+      expect(await purgeExpiredTrash(app.storage, -1)).toBe(2);
+
+      const purges = async (request: TestClient) => (await request("GET", "/api/audit-log?action=trash.purge")).body;
+      expect(await purges(alice)).toMatchObject([{ sessionId: "alice-1", details: { count: 1, records: [{ id: aliceQR }] } }]);
+      expect(await purges(bob)).toMatchObject([{ sessionId: "bob-1", details: { count: 1, records: [{ id: bobQR }] } }]);
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe("sessions from before accounts existed", () => {
+  it("go only to the LEGACY_SESSIONS_OWNER account", async () => {
+    vi.stubEnv("LEGACY_SESSIONS_OWNER", "Admin");
+    const app = await startTestApp();
+    try {
+      await app.storage.createSession({ sessionId: "legacy-1" });
+      const first = await app.register("first");
+      expect((await first("GET", "/api/sessions")).body).toEqual([]);
+      expect((await first("GET", "/api/sessions/legacy-1")).status).toBe(404);
+
+      const admin = await app.register("admin");
+      expect((await admin("GET", "/api/sessions")).body.map((s: { sessionId: string }) => s.sessionId)).toEqual(["legacy-1"]);
+    } finally {
+      vi.unstubAllEnvs();
+      await app.close();
+    }
+  });
+});
@@ -1,24 +1,171 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertScanSessionSchema, insertScannedQRSchema } from "@shared/schema";
+import { DuplicateQRError, type IStorage } from "./storage";
+import {
+  insertScanSessionSchema,
+  updateScanSessionSchema,
+  sessionStatusChangeSchema,
+  scannedQRInputSchema,
+  moveScansSchema,
+  mergeSessionsSchema,
+  splitSessionSchema,
+  restoreScansSchema,
+  scannedQREditSchema,
+  auditLogQuerySchema,
+  sessionExportQuerySchema,
+  newMemberSchema,
+  newApiKeySchema,
+  newExportTemplateSchema,
+  updateExportTemplateSchema,
+  newJournalProfileSchema,
+  updateJournalProfileSchema,
+  memberUpdateSchema,
+  updateOrganizationSchema,
+  type AuditEntry,
+  type NewAuditEntry,
+  type ScanSession,
+  type ScannedQREdit,
+  type TrashContents,
+  type OrganizationDetails,
+  type CreatedApiKey
+} from "@shared/schema";
+import { canChangeSessionStatus, isSessionWritable } from "@shared/session-status";
+import { selectExportRecords, exportFilename, EXPORT_CONTENT_TYPES } from "@shared/data-export";
+import { processScannedQR, applyScannedQREdit, getAmountRules } from "./qr-processing";
+import { transferScans, mergeSessions, splitSession, SessionLockedError } from "./session-transfer";
+import { attributeAuditEntry, describeScannedQR, verifyAuditChain, type AuditActor } from "./audit-log";
+import { restoreScans, getTrashRetentionDays } from "./trash";
+import { renderExport } from "./session-export";
+import { setupAuth, requireUser, requirePermission, hashPassword, toPublicUser } from "./auth";
+import { authenticateApiKey, generateApiKey, toPublicApiKey } from "./api-keys";
 import { z } from "zod";
 
-export async function registerRoutes(app: Express): Promise<Server> {
+export async function registerRoutes(app: Express, storage: IStorage): Promise<Server> {
+  setupAuth(app, storage);
+  // Scripts send an API key instead of logging in
+  app.use("/api", authenticateApiKey(storage));
+  // Every route below needs a logged-in user; routes that change or export
+  // data also need a role that allows it
+  app.use("/api", requireUser);
+
+  // Sessions are shared within the organization they were created in. Other
+  // organizations get a 404, the same answer as for a session that does not
+  // exist.
+  const findOwnedSession = async (sessionId: string, req: Request): Promise<ScanSession | undefined> => {
+    const session = await storage.getSession(sessionId);
+    return session && session.organizationId !== null && session.organizationId === req.user!.organizationId
+      ? session
+      : undefined;
+  };
+
+  const findOwnedQR = async (id: number, req: Request) => {
+    const qr = await storage.getScannedQR(id);
+    const session = qr && await findOwnedSession(qr.sessionId, req);
+    return qr && session ? { qr, session } : undefined;
+  };
+
+  // Members of the user's organization, looked up by id
+  const findMember = async (id: number, req: Request) => {
+    const user = await storage.getUser(id);
+    return user && user.organizationId === req.user!.organizationId ? user : undefined;
+  };
+
+  // Audit entries carry the user, or the API key, who caused them
+  const auditActor = (req: Request): AuditActor => ({ name: req.user!.username, apiKeyId: req.apiKey?.id ?? null });
+
+  const audit = (req: Request, entry: NewAuditEntry) =>
+    storage.appendAuditEntry(attributeAuditEntry(entry, auditActor(req)));
+
+  // The organization's share of the audit trail: entries of its sessions,
+  // and entries without a session that are about it or made by its members
+  const ownedAuditEntries = async (req: Request, entries: AuditEntry[]) => {
+    const organizationId = req.user!.organizationId!;
+    const sessionIds = new Set((await storage.listSessions(organizationId)).map(session => session.sessionId));
+    const members = new Set((await storage.listUsers(organizationId)).map(user => user.username));
+    return entries.filter(entry =>
+      entry.sessionId
+        ? sessionIds.has(entry.sessionId)
+        : entry.details?.organizationId === organizationId || (entry.actor !== null && members.has(entry.actor))
+    );
+  };
+
+  // Locked and archived sessions are read-only until they are reopened
+  const rejectIfSessionLocked = (session: ScanSession, res: Response) => {
+    if (!isSessionWritable(session.status)) {
+      res.status(423).json({ message: `Session is ${session.status}. Reopen it to make changes.`, status: session.status });
+      return true;
+    }
+    return false;
+  };
+
+  // Shared by the record edit and invoice-number routes so both keep history
+  const editScannedQR = async (id: number, edit: ScannedQREdit, req: Request, res: Response) => {
+    const owned = await findOwnedQR(id, req);
+    if (!owned) {
+      return res.status(404).json({ message: "QR code not found" });
+    }
+    if (rejectIfSessionLocked(owned.session, res)) return;
+    const { updates, changes } = applyScannedQREdit(owned.qr, edit);
+    const qr = await storage.updateScannedQR(id, updates, changes.map(change => ({ ...change, changedBy: req.user!.username })));
+    if (changes.length > 0) {
+      await audit(req, {
+        action: 'qr.edit',
+        sessionId: owned.qr.sessionId,
+        qrId: id,
+        details: { changes: changes.map(({ field, oldValue, newValue }) => ({ field, oldValue, newValue })) },
+      });
+    }
+    res.json(qr);
+  };
+
+  const sendTransferError = (error: unknown, res: Response) => {
+    if (error instanceof SessionLockedError) {
+      res.status(423).json({ message: error.message, status: error.status });
+    } else if (error instanceof DuplicateQRError) {
+      res.status(409).json({ message: "Duplicate QR code detected in the target session", error: error.message });
+    } else {
+      res.status(400).json({ message: "Invalid transfer request", error });
+    }
+  };
+
+  // The VAT rate, rounding tolerance and zero-rated default the server checks
+  // amounts with, so forms can check them the same way
+  app.get("/api/amount-rules", (_req, res) => {
+    res.json(getAmountRules());
+  });
+
   // Create or get scan session
-  app.post("/api/sessions", async (req, res) => {
+  app.post("/api/sessions", requirePermission("scan"), async (req, res) => {
     try {
       const sessionData = insertScanSessionSchema.parse(req.body);
-      const session = await storage.createSession(sessionData);
+      const existing = await storage.getSession(sessionData.sessionId);
+      if (existing && !(await findOwnedSession(existing.sessionId, req))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const session = await storage.createSession(sessionData, req.user!.id, req.user!.organizationId, req.apiKey?.id ?? null);
+      // Resuming an existing session is not a new event
+      if (!existing) {
+        await audit(req, { action: 'session.create', sessionId: session.sessionId, details: { name: session.name } });
+      }
       res.json(session);
     } catch (error) {
       res.status(400).json({ message: "Invalid session data", error });
     }
   });
 
+  // List the organization's sessions with their statistics, most recently used first
+  app.get("/api/sessions", async (req, res) => {
+    try {
+      const sessions = await storage.listSessions(req.user!.organizationId!);
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching sessions", error });
+    }
+  });
+
   app.get("/api/sessions/:sessionId", async (req, res) => {
     try {
-      const session = await storage.getSession(req.params.sessionId);
+      const session = await findOwnedSession(req.params.sessionId, req);
       if (!session) {
         return res.status(404).json({ message: "Session not found" });
       }
@@ -28,18 +175,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Update the session name, client, tax period, cost center and notes
+  app.patch("/api/sessions/:sessionId", requirePermission("edit"), async (req, res) => {
+    try {
+      const updates = updateScanSessionSchema.parse(req.body);
+      const existing = await findOwnedSession(req.params.sessionId, req);
+      if (!existing) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (rejectIfSessionLocked(existing, res)) return;
+      const session = await storage.updateSession(req.params.sessionId, updates);
+      await audit(req, { action: 'session.update', sessionId: req.params.sessionId, details: { changes: updates } });
+      res.json(session);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid session details", error });
+    }
+  });
+
+  // Lock, archive or reopen a session
+  app.post("/api/sessions/:sessionId/status", requirePermission("lock"), async (req, res) => {
+    try {
+      const { status, reason } = sessionStatusChangeSchema.parse(req.body);
+      const session = await findOwnedSession(req.params.sessionId, req);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (!canChangeSessionStatus(session.status, status)) {
+        return res.status(409).json({ message: `Cannot change a ${session.status} session to ${status}` });
+      }
+      // Changing the status needs a login, so this is a member
+      const updated = await storage.changeSessionStatus(session.sessionId, status, req.user!.id, reason);
+      await audit(req, {
+        action: 'session.status',
+        sessionId: session.sessionId,
+        details: { fromStatus: session.status, toStatus: status, reason: reason || null },
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid status change", error });
+    }
+  });
+
+  // Status history of a session, oldest first
+  app.get("/api/sessions/:sessionId/status-history", async (req, res) => {
+    try {
+      if (!(await findOwnedSession(req.params.sessionId, req))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const changes = await storage.getSessionStatusChanges(req.params.sessionId);
+      res.json(changes);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching status history", error });
+    }
+  });
+
   // Add scanned QR code
-  app.post("/api/qr-codes", async (req, res) => {
+  app.post("/api/qr-codes", requirePermission("scan"), async (req, res) => {
     try {
-      const qrData = insertScannedQRSchema.parse(req.body);
+      const input = scannedQRInputSchema.parse(req.body);
+      const session = await findOwnedSession(input.sessionId, req);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (rejectIfSessionLocked(session, res)) return;
       
-      // Fast response - process immediately without validation delays
-      const qr = await storage.addScannedQR(qrData);
+      // Parse and validate on the server; client-supplied results are ignored
+      const qr = await storage.addScannedQR(processScannedQR(input));
+      await audit(req, { action: 'qr.create', sessionId: qr.sessionId, qrId: qr.id, details: describeScannedQR(qr) });
       
       // Send response immediately
       res.status(201).json(qr);
     } catch (error) {
-      if (error instanceof Error && error.message.includes('Duplicate QR code')) {
+      if (error instanceof DuplicateQRError) {
         res.status(409).json({ message: "Duplicate QR code detected in this session", error: error.message });
       } else {
         res.status(400).json({ message: "Invalid QR data", error });
@@ -47,9 +254,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Move selected records to another session
+  app.post("/api/qr-codes/move", requirePermission("edit"), async (req, res) => {
+    try {
+      const { ids, targetSessionId } = moveScansSchema.parse(req.body);
+      if (!(await findOwnedSession(targetSessionId, req))) {
+        return res.status(404).json({ message: "Target session not found" });
+      }
+      // Records of other users' sessions are reported as not found
+      const ownedIds: number[] = [];
+      const otherIds: number[] = [];
+      for (const id of ids) {
+        ((await findOwnedQR(id, req)) ? ownedIds : otherIds).push(id);
+      }
+      const report = await transferScans(storage, ownedIds, targetSessionId, auditActor(req));
+      report.conflicts.push(...otherIds.map(id => ({ id, reason: 'not_found' as const })));
+      res.json(report);
+    } catch (error) {
+      sendTransferError(error, res);
+    }
+  });
+
   // Get scanned QR codes for session
   app.get("/api/qr-codes/:sessionId", async (req, res) => {
     try {
+      if (!(await findOwnedSession(req.params.sessionId, req))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
       const qrs = await storage.getScannedQRs(req.params.sessionId);
       res.json(qrs);
     } catch (error) {
@@ -57,13 +288,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete specific QR code
-  app.delete("/api/qr-codes/:id", async (req, res) => {
+  // Fill in the invoice number of a scanned QR code
+  app.patch("/api/qr-codes/:id/invoice-number", requirePermission("edit"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { invoiceNumber } = z.object({ invoiceNumber: z.string().trim().min(1) }).parse(req.body);
+      await editScannedQR(id, { invoiceNumber }, req, res);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid invoice number", error });
+    }
+  });
+
+  // Correct the fields of a saved record; every change is kept in its history
+  app.patch("/api/qr-codes/:id", requirePermission("edit"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const edit = scannedQREditSchema.parse(req.body);
+      await editScannedQR(id, edit, req, res);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid QR data", error });
+    }
+  });
+
+  // Field-level change history of a record, newest first
+  app.get("/api/qr-codes/:id/history", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await findOwnedQR(id, req))) {
+        return res.status(404).json({ message: "QR code not found" });
+      }
+      const changes = await storage.getScanRecordChanges(id);
+      res.json(changes);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching change history", error });
+    }
+  });
+
+  // Move a QR code to its session's trash
+  app.delete("/api/qr-codes/:id", requirePermission("edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const owned = await findOwnedQR(id, req);
+      if (!owned) {
+        return res.status(404).json({ message: "QR code not found" });
+      }
+      if (rejectIfSessionLocked(owned.session, res)) return;
       const success = await storage.deleteScannedQR(id);
       if (success) {
-        res.json({ message: "QR code deleted" });
+        await audit(req, { action: 'qr.delete', sessionId: owned.qr.sessionId, qrId: id, details: describeScannedQR(owned.qr) });
+        res.json({ message: "QR code moved to trash", ids: [id] });
       } else {
         res.status(404).json({ message: "QR code not found" });
       }
@@ -72,19 +345,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Clear all QR codes for session
-  app.delete("/api/sessions/:sessionId/qr-codes", async (req, res) => {
+  // Move all QR codes of a session to its trash
+  app.delete("/api/sessions/:sessionId/qr-codes", requirePermission("edit"), async (req, res) => {
     try {
-      await storage.clearSessionQRs(req.params.sessionId);
-      res.json({ message: "All QR codes cleared" });
+      const session = await findOwnedSession(req.params.sessionId, req);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (rejectIfSessionLocked(session, res)) return;
+      const cleared = await storage.clearSessionQRs(session.sessionId);
+      await audit(req, {
+        action: 'session.clear',
+        sessionId: session.sessionId,
+        details: { count: cleared.length, records: cleared.map(qr => ({ id: qr.id, ...describeScannedQR(qr) })) },
+      });
+      res.json({ message: "All QR codes moved to trash", ids: cleared.map(qr => qr.id) });
     } catch (error) {
       res.status(500).json({ message: "Error clearing QR codes", error });
     }
   });
 
+  // Records in the session's trash, most recently deleted first
+  app.get("/api/sessions/:sessionId/trash", async (req, res) => {
+    try {
+      if (!(await findOwnedSession(req.params.sessionId, req))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const trash: TrashContents = {
+        records: await storage.getTrashedQRs(req.params.sessionId),
+        retentionDays: getTrashRetentionDays(),
+      };
+      res.json(trash);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching trash", error });
+    }
+  });
+
+  // Take records out of the trash
+  app.post("/api/sessions/:sessionId/trash/restore", requirePermission("edit"), async (req, res) => {
+    try {
+      const { ids } = restoreScansSchema.parse(req.body);
+      const session = await findOwnedSession(req.params.sessionId, req);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (rejectIfSessionLocked(session, res)) return;
+      const report = await restoreScans(storage, session.sessionId, ids, auditActor(req));
+      res.json(report);
+    } catch (error) {
+      sendTransferError(error, res);
+    }
+  });
+
+  // Merge another session's records into this one
+  app.post("/api/sessions/:sessionId/merge", requirePermission("edit"), async (req, res) => {
+    try {
+      const { sourceSessionId } = mergeSessionsSchema.parse(req.body);
+      if (sourceSessionId === req.params.sessionId) {
+        return res.status(400).json({ message: "Cannot merge a session into itself" });
+      }
+      const [target, source] = await Promise.all([
+        findOwnedSession(req.params.sessionId, req),
+        findOwnedSession(sourceSessionId, req),
+      ]);
+      if (!target || !source) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const report = await mergeSessions(storage, source.sessionId, target.sessionId, auditActor(req));
+      await audit(req, {
+        action: 'session.merge',
+        sessionId: target.sessionId,
+        details: { sourceSessionId: source.sessionId, moved: report.moved.length, conflicts: report.conflicts.length },
+      });
+      res.json(report);
+    } catch (error) {
+      sendTransferError(error, res);
+    }
+  });
+
+  // Split a session into new sessions by invoice date or seller
+  app.post("/api/sessions/:sessionId/split", requirePermission("edit"), async (req, res) => {
+    try {
+      const { by } = splitSessionSchema.parse(req.body);
+      const session = await findOwnedSession(req.params.sessionId, req);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const report = await splitSession(storage, session, by, auditActor(req));
+      if (report.sessions.length > 0) {
+        await audit(req, {
+          action: 'session.split',
+          sessionId: session.sessionId,
+          details: { by, sessions: report.sessions.map(s => ({ sessionId: s.session.sessionId, label: s.label, moved: s.moved.length })) },
+        });
+      }
+      res.json(report);
+    } catch (error) {
+      sendTransferError(error, res);
+    }
+  });
+
   // Get session statistics
   app.get("/api/sessions/:sessionId/stats", async (req, res) => {
     try {
+      if (!(await findOwnedSession(req.params.sessionId, req))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
       const stats = await storage.getSessionStats(req.params.sessionId);
       res.json(stats);
     } catch (error) {
@@ -92,6 +458,411 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download an export of the session, filtered like the export dialog
+  app.get("/api/sessions/:sessionId/export", requirePermission("export"), async (req, res) => {
+    try {
+      const query = sessionExportQuerySchema.parse(req.query);
+      const session = await findOwnedSession(req.params.sessionId, req);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const template = query.template ? await findTemplate(query.template, req) : undefined;
+      if (query.template && !template) {
+        return res.status(404).json({ message: "Export template not found" });
+      }
+      const journalProfile = query.profile ? await findJournalProfile(query.profile, req) : undefined;
+      if (query.profile && !journalProfile) {
+        return res.status(404).json({ message: "Journal profile not found" });
+      }
+      const records = selectExportRecords(await storage.getScannedQRs(session.sessionId), query.range, query.ids);
+      const filename = exportFilename(query.filename?.replace(/[\\/]/g, "_"), query.format);
+      const file = await renderExport(query.format, records, {
+        includeHeaders: query.headers,
+        session,
+        delimiter: query.delimiter,
+        template: template?.settings,
+        journalProfile,
+      });
+      const recordIds = records.map(qr => qr.id);
+      await audit(req, {
+        action: 'session.export',
+        sessionId: session.sessionId,
+        details: {
+          format: query.format,
+          exportRange: query.range,
+          filename,
+          templateId: template?.id ?? null,
+          journalProfileId: journalProfile?.id ?? null,
+          recordCount: recordIds.length,
+          recordIds,
+        },
+      });
+      res.attachment(filename).type(EXPORT_CONTENT_TYPES[query.format]).send(file);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid export request", error });
+    }
+  });
+
+  // Audit trail of the organization's sessions, oldest first, filtered by session,
+  // record, action or time
+  app.get("/api/audit-log", async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const entries = await ownedAuditEntries(req, await storage.getAuditEntries(query));
+      res.json(entries);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid audit log query", error });
+    }
+  });
+
+  // Recompute the hash chain over the organization's share of the trail
+  app.get("/api/audit-log/verify", async (req, res) => {
+    try {
+      const chain = await storage.getAuditEntries();
+      const verification = verifyAuditChain(chain, await ownedAuditEntries(req, chain));
+      res.json(verification);
+    } catch (error) {
+      res.status(500).json({ message: "Error verifying audit log", error });
+    }
+  });
+
+  // Download the trail with its hashes so it can be verified elsewhere
+  app.get("/api/audit-log/export", requirePermission("export"), async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      if (query.sessionId && !(await findOwnedSession(query.sessionId, req))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      await audit(req, { action: 'audit.export', sessionId: query.sessionId ?? null, details: { query } });
+      const entries = await ownedAuditEntries(req, await storage.getAuditEntries(query));
+      const chain = await storage.getAuditEntries();
+      const verification = verifyAuditChain(chain, await ownedAuditEntries(req, chain));
+      res.attachment(`audit_log_${new Date().toISOString().split('T')[0]}.json`);
+      res.json({ exportedAt: new Date(), verification, entries });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid audit log query", error });
+    }
+  });
+
+  // The user's organization and its members
+  app.get("/api/organization", async (req, res) => {
+    try {
+      const organization = await storage.getOrganization(req.user!.organizationId!);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const members = (await storage.listUsers(organization.id)).map(toPublicUser);
+      const details: OrganizationDetails = { organization, members };
+      res.json(details);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching organization", error });
+    }
+  });
+
+  app.patch("/api/organization", requirePermission("manage"), async (req, res) => {
+    try {
+      const updates = updateOrganizationSchema.parse(req.body);
+      const organization = await storage.updateOrganization(req.user!.organizationId!, updates);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      await audit(req, { action: 'organization.update', details: { organizationId: organization.id, changes: updates } });
+      res.json(organization);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid organization details", error });
+    }
+  });
+
+  // Create the account of a new member
+  app.post("/api/organization/members", requirePermission("manage"), async (req, res) => {
+    try {
+      const { username, password, role } = newMemberSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      const member = await storage.createUser({
+        username,
+        passwordHash: await hashPassword(password),
+        organizationId: req.user!.organizationId,
+        role,
+      });
+      await audit(req, { action: 'member.add', details: { organizationId: member.organizationId, username, role } });
+      res.status(201).json(toPublicUser(member));
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Username already exists')) {
+        res.status(409).json({ message: "Username already exists" });
+      } else {
+        res.status(400).json({ message: "Invalid member", error });
+      }
+    }
+  });
+
+  // Change a member's role. Admins cannot change their own, so an
+  // organization always keeps an admin.
+  app.patch("/api/organization/members/:id", requirePermission("manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { role } = memberUpdateSchema.parse(req.body);
+      const member = await findMember(id, req);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (member.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+      const updated = await storage.updateUser(member.id, { role });
+      if (member.role !== role) {
+        await audit(req, {
+          action: 'member.update',
+          details: { organizationId: member.organizationId, username: member.username, fromRole: member.role, toRole: role },
+        });
+      }
+      res.json(toPublicUser(updated!));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid role", error });
+    }
+  });
+
+  // Delete a member's account; their sessions stay with the organization
+  app.delete("/api/organization/members/:id", requirePermission("manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const member = await findMember(id, req);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (member.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot remove yourself" });
+      }
+      await storage.deleteUser(member.id);
+      await audit(req, { action: 'member.remove', details: { organizationId: member.organizationId, username: member.username } });
+      res.json({ message: "Member removed" });
+    } catch (error) {
+      res.status(500).json({ message: "Error removing member", error });
+    }
+  });
+
+  // API keys of the organization, newest first, revoked ones included
+  app.get("/api/api-keys", requirePermission("manage"), async (req, res) => {
+    try {
+      const keys = await storage.listApiKeys(req.user!.organizationId!);
+      res.json(keys.map(toPublicApiKey));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching API keys", error });
+    }
+  });
+
+  // Create a key; the response is the only place the key itself appears
+  app.post("/api/api-keys", requirePermission("manage"), async (req, res) => {
+    try {
+      const { name, scopes } = newApiKeySchema.parse(req.body);
+      const { key, keyPrefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        organizationId: req.user!.organizationId!,
+        name,
+        keyPrefix,
+        keyHash,
+        scopes: Array.from(new Set(scopes)),
+        // Managing keys needs a login, so this is a member
+        createdBy: req.user!.id!,
+      });
+      await audit(req, {
+        action: 'apikey.create',
+        details: { organizationId: apiKey.organizationId, name, keyPrefix, scopes: apiKey.scopes },
+      });
+      const created: CreatedApiKey = { apiKey: toPublicApiKey(apiKey), key };
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid API key", error });
+    }
+  });
+
+  // Revoke a key; it stops working immediately and stays listed
+  app.delete("/api/api-keys/:id", requirePermission("manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const apiKey = await storage.getApiKey(id);
+      if (!apiKey || apiKey.organizationId !== req.user!.organizationId) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      const revoked = await storage.revokeApiKey(id);
+      if (!apiKey.revokedAt) {
+        await audit(req, {
+          action: 'apikey.revoke',
+          details: { organizationId: apiKey.organizationId, name: apiKey.name, keyPrefix: apiKey.keyPrefix },
+        });
+      }
+      res.json(toPublicApiKey(revoked!));
+    } catch (error) {
+      res.status(500).json({ message: "Error revoking API key", error });
+    }
+  });
+
+  // The organization's export templates, by name
+  app.get("/api/export-templates", async (req, res) => {
+    try {
+      const templates = await storage.listExportTemplates(req.user!.organizationId!);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching export templates", error });
+    }
+  });
+
+  const findTemplate = async (id: number, req: Request) => {
+    const template = await storage.getExportTemplate(id);
+    return template && template.organizationId === req.user!.organizationId ? template : undefined;
+  };
+
+  const templateNameTaken = async (name: string, req: Request, exceptId?: number) =>
+    (await storage.listExportTemplates(req.user!.organizationId!))
+      .some(template => template.name.toLowerCase() === name.toLowerCase() && template.id !== exceptId);
+
+  // Names are unique within the organization, whatever their case
+  app.post("/api/export-templates", requirePermission("export"), async (req, res) => {
+    try {
+      const { name, settings } = newExportTemplateSchema.parse(req.body);
+      if (await templateNameTaken(name, req)) {
+        return res.status(409).json({ message: "An export template with this name already exists" });
+      }
+      const template = await storage.createExportTemplate({
+        organizationId: req.user!.organizationId!,
+        name,
+        settings,
+        createdBy: req.user!.id,
+        apiKeyId: req.apiKey?.id ?? null,
+      });
+      await audit(req, {
+        action: 'template.create',
+        details: { organizationId: template.organizationId, templateId: template.id, name },
+      });
+      res.status(201).json(template);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid export template", error });
+    }
+  });
+
+  // Exports already downloaded keep the layout they were made with
+  app.patch("/api/export-templates/:id", requirePermission("export"), async (req, res) => {
+    try {
+      const updates = updateExportTemplateSchema.parse(req.body);
+      const template = await findTemplate(parseInt(req.params.id), req);
+      if (!template) {
+        return res.status(404).json({ message: "Export template not found" });
+      }
+      if (updates.name && await templateNameTaken(updates.name, req, template.id)) {
+        return res.status(409).json({ message: "An export template with this name already exists" });
+      }
+      const updated = await storage.updateExportTemplate(template.id, updates);
+      await audit(req, {
+        action: 'template.update',
+        details: { organizationId: template.organizationId, templateId: template.id, name: updated!.name },
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid export template", error });
+    }
+  });
+
+  // Exports that picked the template fall back to the standard report
+  app.delete("/api/export-templates/:id", requirePermission("export"), async (req, res) => {
+    try {
+      const template = await findTemplate(parseInt(req.params.id), req);
+      if (!template) {
+        return res.status(404).json({ message: "Export template not found" });
+      }
+      await storage.deleteExportTemplate(template.id);
+      await audit(req, {
+        action: 'template.delete',
+        details: { organizationId: template.organizationId, templateId: template.id, name: template.name },
+      });
+      res.json({ message: "Export template deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting export template", error });
+    }
+  });
+
+  // The organization's journal profiles, by name
+  app.get("/api/journal-profiles", async (req, res) => {
+    try {
+      const profiles = await storage.listJournalProfiles(req.user!.organizationId!);
+      res.json(profiles);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching journal profiles", error });
+    }
+  });
+
+  const findJournalProfile = async (id: number, req: Request) => {
+    const profile = await storage.getJournalProfile(id);
+    return profile && profile.organizationId === req.user!.organizationId ? profile : undefined;
+  };
+
+  const journalProfileNameTaken = async (name: string, req: Request, exceptId?: number) =>
+    (await storage.listJournalProfiles(req.user!.organizationId!))
+      .some(profile => profile.name.toLowerCase() === name.toLowerCase() && profile.id !== exceptId);
+
+  // Names are unique within the organization, whatever their case
+  app.post("/api/journal-profiles", requirePermission("export"), async (req, res) => {
+    try {
+      const { name, settings } = newJournalProfileSchema.parse(req.body);
+      if (await journalProfileNameTaken(name, req)) {
+        return res.status(409).json({ message: "A journal profile with this name already exists" });
+      }
+      const profile = await storage.createJournalProfile({
+        organizationId: req.user!.organizationId!,
+        name,
+        settings,
+        createdBy: req.user!.id,
+        apiKeyId: req.apiKey?.id ?? null,
+      });
+      await audit(req, {
+        action: 'journal.create',
+        details: { organizationId: profile.organizationId, journalProfileId: profile.id, name },
+      });
+      res.status(201).json(profile);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid journal profile", error });
+    }
+  });
+
+  // Account codes apply to journal entries exported from now on
+  app.patch("/api/journal-profiles/:id", requirePermission("export"), async (req, res) => {
+    try {
+      const updates = updateJournalProfileSchema.parse(req.body);
+      const profile = await findJournalProfile(parseInt(req.params.id), req);
+      if (!profile) {
+        return res.status(404).json({ message: "Journal profile not found" });
+      }
+      if (updates.name && await journalProfileNameTaken(updates.name, req, profile.id)) {
+        return res.status(409).json({ message: "A journal profile with this name already exists" });
+      }
+      const updated = await storage.updateJournalProfile(profile.id, updates);
+      await audit(req, {
+        action: 'journal.update',
+        details: { organizationId: profile.organizationId, journalProfileId: profile.id, name: updated!.name },
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid journal profile", error });
+    }
+  });
+
+  app.delete("/api/journal-profiles/:id", requirePermission("export"), async (req, res) => {
+    try {
+      const profile = await findJournalProfile(parseInt(req.params.id), req);
+      if (!profile) {
+        return res.status(404).json({ message: "Journal profile not found" });
+      }
+      await storage.deleteJournalProfile(profile.id);
+      await audit(req, {
+        action: 'journal.delete',
+        details: { organizationId: profile.organizationId, journalProfileId: profile.id, name: profile.name },
+      });
+      res.json({ message: "Journal profile deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting journal profile", error });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,35 @@
+import type { ScannedQR } from "@shared/schema";
+import { toCSV, toJSONLines, type ExportFormat, type ExportOptions } from "@shared/data-export";
+import { buildJournalEntries, toJournalCSV, toJournalJSON } from "@shared/journal-entries";
+import { buildExcelReport } from "./excel-report";
+import { buildPdfReport } from "./pdf-report";
+
+/**
+ * Generates the export file of records that are already filtered to the
+ * export range. The browser and API-key clients download the same bytes.
+ */
+export async function renderExport(
+  format: ExportFormat,
+  records: ScannedQR[],
+  options: Omit<ExportOptions, 'filename' | 'exportRange'>
+): Promise<Buffer | string> {
+  switch (format) {
+    case 'csv':
+      return toCSV(records, { delimiter: options.delimiter, includeHeaders: options.includeHeaders });
+    case 'jsonl':
+      return toJSONLines(records);
+    case 'pdf':
+      return buildPdfReport(records, options);
+    case 'journal-csv':
+    case 'journal-json': {
+      const profile = options.journalProfile;
+      if (!profile) throw new Error("Journal entries need a journal profile");
+      const entries = buildJournalEntries(records, profile.settings);
+      return format === 'journal-csv'
+        ? toJournalCSV(entries, { delimiter: options.delimiter, includeHeaders: options.includeHeaders })
+        : toJournalJSON(entries, { profile: profile.name, session: options.session });
+    }
+    default:
+      return buildExcelReport(records, options);
+  }
+}
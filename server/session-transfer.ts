@@ -0,0 +1,129 @@
+import type { ScannedQR, ScanSession, SplitReport, TransferConflict, TransferReport } from "@shared/schema";
+import { isSessionWritable } from "@shared/session-status";
+import { getInvoiceDay } from "@shared/invoice-date";
+import { createSessionId } from "@shared/session-id";
+import type { IStorage } from "./storage";
+import { attributeAuditEntry, type AuditActor } from "./audit-log";
+
+export class SessionLockedError extends Error {
+  constructor(public sessionId: string, public status: string) {
+    super(`Session ${sessionId} is ${status}. Reopen it to make changes.`);
+  }
+}
+
+async function assertWritable(storage: IStorage, sessionIds: Iterable<string>) {
+  for (const sessionId of Array.from(new Set(sessionIds))) {
+    const session = await storage.getSession(sessionId);
+    if (session && !isSessionWritable(session.status)) {
+      throw new SessionLockedError(sessionId, session.status);
+    }
+  }
+}
+
+/**
+ * Moves records into another session. Duplicate detection on rawData is
+ * re-run against the target session (and among the moved records), and the
+ * records that would collide stay where they are and are reported instead.
+ * Manual entries are never duplicates, matching addScannedQR. Each moved
+ * record gets its own entry in the audit trail, attributed to actor.
+ */
+export async function transferScans(storage: IStorage, ids: number[], targetSessionId: string, actor?: AuditActor): Promise<TransferReport> {
+  const conflicts: TransferConflict[] = [];
+  const candidates: ScannedQR[] = [];
+
+  for (const id of Array.from(new Set(ids))) {
+    const qr = await storage.getScannedQR(id);
+    if (!qr) {
+      conflicts.push({ id, reason: 'not_found' });
+    } else if (qr.sessionId !== targetSessionId) {
+      candidates.push(qr);
+    }
+  }
+
+  await assertWritable(storage, [targetSessionId, ...candidates.map(qr => qr.sessionId)]);
+
+  const seen = new Map<string, number>();
+  for (const qr of await storage.getScannedQRs(targetSessionId)) {
+    if (!qr.isManualEntry) seen.set(qr.rawData, qr.id);
+  }
+
+  const accepted: number[] = [];
+  for (const qr of candidates) {
+    const existingId = qr.isManualEntry ? undefined : seen.get(qr.rawData);
+    if (existingId !== undefined) {
+      conflicts.push({ id: qr.id, reason: 'duplicate', existingId, sellerName: qr.sellerName });
+      continue;
+    }
+    if (!qr.isManualEntry) seen.set(qr.rawData, qr.id);
+    accepted.push(qr.id);
+  }
+
+  const moved = await storage.reassignScannedQRs(accepted, targetSessionId);
+  const fromSessionIds = new Map(candidates.map(qr => [qr.id, qr.sessionId]));
+  for (const qr of moved) {
+    await storage.appendAuditEntry(attributeAuditEntry({
+      action: 'qr.move',
+      sessionId: targetSessionId,
+      qrId: qr.id,
+      details: { fromSessionId: fromSessionIds.get(qr.id), toSessionId: targetSessionId },
+    }, actor));
+  }
+  return { targetSessionId, moved: moved.map(qr => qr.id), conflicts };
+}
+
+// Moves every record of one session into another
+export async function mergeSessions(storage: IStorage, sourceSessionId: string, targetSessionId: string, actor?: AuditActor): Promise<TransferReport> {
+  const qrs = await storage.getScannedQRs(sourceSessionId);
+  return transferScans(storage, qrs.map(qr => qr.id), targetSessionId, actor);
+}
+
+function splitKey(qr: ScannedQR, by: 'date' | 'seller'): { key: string; label: string } | null {
+  if (by === 'date') {
+    const day = getInvoiceDay(qr.invoiceDate, qr.invoiceTimezone);
+    return day ? { key: day, label: day } : null;
+  }
+  const key = qr.vatNumber || qr.sellerName;
+  return key ? { key, label: qr.sellerName || key } : null;
+}
+
+/**
+ * Splits a session into one new session per invoice day or per seller. The
+ * new sessions copy the owner, client, tax period and cost center of the
+ * original.
+ */
+export async function splitSession(storage: IStorage, session: ScanSession, by: 'date' | 'seller', actor?: AuditActor): Promise<SplitReport> {
+  await assertWritable(storage, [session.sessionId]);
+
+  const groups = new Map<string, { label: string; ids: number[] }>();
+  const unassigned: number[] = [];
+
+  for (const qr of await storage.getScannedQRs(session.sessionId)) {
+    const group = splitKey(qr, by);
+    if (!group) {
+      unassigned.push(qr.id);
+      continue;
+    }
+    if (!groups.has(group.key)) groups.set(group.key, { label: group.label, ids: [] });
+    groups.get(group.key)!.ids.push(qr.id);
+  }
+
+  const sessions: SplitReport['sessions'] = [];
+  // A single group means the session is already split that way
+  if (groups.size < 2) {
+    return { sessions, unassigned };
+  }
+
+  for (const { label, ids } of Array.from(groups.values())) {
+    const created = await storage.createSession({
+      sessionId: createSessionId(),
+      name: `${session.name || 'Session'} – ${label}`,
+      client: session.client,
+      taxPeriod: session.taxPeriod,
+      costCenter: session.costCenter,
+    }, session.ownerId, session.organizationId, session.apiKeyId);
+    const report = await transferScans(storage, ids, created.sessionId, actor);
+    sessions.push({ ...report, session: created, label });
+  }
+
+  return { sessions, unassigned };
+}
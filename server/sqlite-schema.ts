@@ -0,0 +1,149 @@
+import { sqliteTable, text, integer, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import type { TLVDiagnostic } from "@shared/tlv";
+import type { AmountFlag } from "@shared/invoice-rules";
+import type { ApiKeyScope } from "@shared/api-keys";
+import type { ExportTemplateSettings } from "@shared/export-templates";
+import type { JournalProfileSettings } from "@shared/journal-entries";
+
+// SQLite mirror of the tables in shared/schema.ts. Column names and row
+// shapes match the Postgres tables so both backends return the same
+// ScanSession and ScannedQR objects: decimals are kept as text, timestamps
+// as epoch milliseconds and JSON columns as text.
+
+export const organizations = sqliteTable("organizations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  organizationId: integer("organization_id"),
+  role: text("role").notNull().default("scanner"),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const apiKeys = sqliteTable("api_keys", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  organizationId: integer("organization_id").notNull(),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes", { mode: "json" }).$type<ApiKeyScope[]>().notNull(),
+  createdBy: integer("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  lastUsedAt: integer("last_used_at", { mode: "timestamp_ms" }),
+  revokedAt: integer("revoked_at", { mode: "timestamp_ms" }),
+});
+
+export const exportTemplates = sqliteTable("export_templates", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  organizationId: integer("organization_id").notNull(),
+  name: text("name").notNull(),
+  settings: text("settings", { mode: "json" }).$type<ExportTemplateSettings>().notNull(),
+  createdBy: integer("created_by"),
+  apiKeyId: integer("api_key_id"),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex("export_templates_organization_name_idx").on(table.organizationId, table.name),
+]);
+
+export const journalProfiles = sqliteTable("journal_profiles", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  organizationId: integer("organization_id").notNull(),
+  name: text("name").notNull(),
+  settings: text("settings", { mode: "json" }).$type<JournalProfileSettings>().notNull(),
+  createdBy: integer("created_by"),
+  apiKeyId: integer("api_key_id"),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex("journal_profiles_organization_name_idx").on(table.organizationId, table.name),
+]);
+
+export const scanSessions = sqliteTable("scan_sessions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  sessionId: text("session_id").notNull().unique(),
+  ownerId: integer("owner_id"),
+  apiKeyId: integer("api_key_id"),
+  organizationId: integer("organization_id"),
+  name: text("name"),
+  client: text("client"),
+  taxPeriod: text("tax_period"),
+  costCenter: text("cost_center"),
+  notes: text("notes"),
+  status: text("status").notNull().default("open"),
+  statusChangedAt: integer("status_changed_at", { mode: "timestamp_ms" }),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const sessionStatusChanges = sqliteTable("session_status_changes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  sessionId: text("session_id").notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  reason: text("reason"),
+  changedBy: integer("changed_by"),
+  changedAt: integer("changed_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const scanRecordChanges = sqliteTable("scan_record_changes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  qrId: integer("qr_id").notNull(),
+  sessionId: text("session_id").notNull(),
+  field: text("field").notNull(),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  changedBy: text("changed_by"),
+  changedAt: integer("changed_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const auditLog = sqliteTable("audit_log", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  sequence: integer("sequence").notNull().unique(),
+  action: text("action").notNull(),
+  sessionId: text("session_id"),
+  qrId: integer("qr_id"),
+  actor: text("actor"),
+  details: text("details", { mode: "json" }).$type<Record<string, unknown>>(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  prevHash: text("prev_hash"),
+  hash: text("hash").notNull(),
+});
+
+export const scannedQRs = sqliteTable("scanned_qrs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  sessionId: text("session_id").notNull(),
+  status: text("status").notNull(),
+  sellerName: text("seller_name"),
+  vatNumber: text("vat_number"),
+  vatNumberError: text("vat_number_error"),
+  invoiceNumber: text("invoice_number"),
+  invoiceNumberSource: text("invoice_number_source").notNull().default("missing"),
+  invoiceDate: integer("invoice_date", { mode: "timestamp_ms" }),
+  invoiceTimezone: text("invoice_timezone"),
+  subtotal: text("subtotal"),
+  vatAmount: text("vat_amount"),
+  totalAmount: text("total_amount"),
+  zeroRated: integer("zero_rated", { mode: "boolean" }).default(false),
+  amountFlags: text("amount_flags", { mode: "json" }).$type<AmountFlag[]>(),
+  rawData: text("raw_data").notNull(),
+  isManualEntry: integer("is_manual_entry", { mode: "boolean" }).default(false),
+  notes: text("notes"),
+  invoiceHash: text("invoice_hash"),
+  signature: text("signature"),
+  publicKey: text("public_key"),
+  stampSignature: text("stamp_signature"),
+  signatureStatus: text("signature_status"),
+  parseDiagnostics: text("parse_diagnostics", { mode: "json" }).$type<TLVDiagnostic[]>(),
+  scannedAt: integer("scanned_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+}, (table) => [
+  uniqueIndex("scanned_qrs_session_raw_data_idx")
+    .on(table.sessionId, table.rawData)
+    .where(sql`${table.isManualEntry} = 0 and ${table.deletedAt} is null`),
+]);
@@ -0,0 +1,477 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { and, asc, desc, eq, gte, inArray, isNotNull, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { drizzle, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import type session from "express-session";
+import type {
+  ScanSession,
+  InsertScanSession,
+  UpdateScanSession,
+  ScannedQR,
+  InsertScannedQR,
+  SessionStats,
+  SessionSummary,
+  SessionStatusChange,
+  ScanRecordChange,
+  InsertScanRecordChange,
+  AuditEntry,
+  NewAuditEntry,
+  AuditLogQuery,
+  User,
+  InsertUser,
+  Organization,
+  UpdateOrganization,
+  ApiKey,
+  InsertApiKey,
+  ExportTemplate,
+  InsertExportTemplate,
+  UpdateExportTemplate,
+  JournalProfile,
+  InsertJournalProfile,
+  UpdateJournalProfile
+} from "@shared/schema";
+import type { SessionStatus } from "@shared/session-status";
+import * as schema from "./sqlite-schema";
+import { organizations, users, apiKeys, exportTemplates, journalProfiles, scanSessions, scannedQRs, sessionStatusChanges, scanRecordChanges, auditLog } from "./sqlite-schema";
+import { sealAuditEntry } from "./audit-log";
+import { createMemorySessionStore, sortSessionSummaries, DuplicateQRError, type IStorage } from "./storage";
+
+export type SQLiteDatabase = BetterSQLite3Database<typeof schema>;
+
+// Opens (or creates) the database file and applies migrations/sqlite
+export function openSQLiteDatabase(filename = process.env.SQLITE_PATH || "./data/zatscan.db"): SQLiteDatabase {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+
+  const sqlite = new Database(filename);
+  sqlite.pragma("journal_mode = WAL");
+
+  const db = drizzle({ client: sqlite, schema });
+  migrate(db, { migrationsFolder: path.resolve(process.cwd(), "migrations/sqlite") });
+  return db;
+}
+
+const statsColumns = {
+  totalScans: sql<number>`count(${scannedQRs.id})`,
+  validScans: sql<number>`count(${scannedQRs.id}) filter (where ${scannedQRs.status} = 'valid')`,
+  totalAmount: sql<number>`coalesce(sum(cast(${scannedQRs.totalAmount} as real)) filter (where ${scannedQRs.status} = 'valid'), 0)`,
+  errors: sql<number>`count(${scannedQRs.id}) filter (where ${scannedQRs.status} = 'invalid')`,
+};
+
+function auditConditions(query: AuditLogQuery) {
+  return and(
+    query.sessionId !== undefined ? eq(auditLog.sessionId, query.sessionId) : undefined,
+    query.qrId !== undefined ? eq(auditLog.qrId, query.qrId) : undefined,
+    query.action !== undefined ? eq(auditLog.action, query.action) : undefined,
+    query.from !== undefined ? gte(auditLog.createdAt, query.from) : undefined,
+    query.to !== undefined ? lte(auditLog.createdAt, query.to) : undefined,
+  );
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "SQLITE_CONSTRAINT_UNIQUE";
+}
+
+export class SQLiteStorage implements IStorage {
+  // Logins are kept in memory and have to be repeated after a restart
+  sessionStore: session.Store = createMemorySessionStore();
+
+  constructor(private db: SQLiteDatabase) {}
+
+  async createOrganization(name: string): Promise<Organization> {
+    const [organization] = await this.db.insert(organizations).values({ name }).returning();
+    return organization;
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await this.db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async updateOrganization(id: number, updates: UpdateOrganization): Promise<Organization | undefined> {
+    const [organization] = await this.db
+      .update(organizations)
+      .set(updates)
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    try {
+      const [user] = await this.db.insert(users).values(insertUser).returning();
+      return user;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new Error('Username already exists');
+      }
+      throw error;
+    }
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async listUsers(organizationId: number): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.organizationId, organizationId)).orderBy(asc(users.id));
+  }
+
+  async updateUser(id: number, updates: Partial<Pick<InsertUser, 'organizationId' | 'role'>>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  async claimUnownedSessions(organizationId: number, ownerId: number, includeOwnerless: boolean): Promise<number> {
+    const claimed = await this.db
+      .update(scanSessions)
+      .set({ organizationId, ownerId: sql`coalesce(${scanSessions.ownerId}, ${ownerId})` })
+      .where(and(
+        isNull(scanSessions.organizationId),
+        includeOwnerless
+          ? or(isNull(scanSessions.ownerId), eq(scanSessions.ownerId, ownerId))
+          : eq(scanSessions.ownerId, ownerId),
+      ))
+      .returning({ id: scanSessions.id });
+    return claimed.length;
+  }
+
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const [apiKey] = await this.db.insert(apiKeys).values(insertKey).returning();
+    return apiKey;
+  }
+
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    const [apiKey] = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await this.db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey;
+  }
+
+  async listApiKeys(organizationId: number): Promise<ApiKey[]> {
+    return this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.organizationId, organizationId))
+      .orderBy(desc(apiKeys.createdAt), desc(apiKeys.id));
+  }
+
+  async revokeApiKey(id: number): Promise<ApiKey | undefined> {
+    // Revoking twice keeps the first revocation time
+    const [apiKey] = await this.db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+      .returning();
+    return apiKey ?? this.getApiKey(id);
+  }
+
+  async touchApiKey(id: number, usedAt: Date): Promise<void> {
+    await this.db.update(apiKeys).set({ lastUsedAt: usedAt }).where(eq(apiKeys.id, id));
+  }
+
+  async createExportTemplate(insertTemplate: InsertExportTemplate): Promise<ExportTemplate> {
+    const [template] = await this.db.insert(exportTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async getExportTemplate(id: number): Promise<ExportTemplate | undefined> {
+    const [template] = await this.db.select().from(exportTemplates).where(eq(exportTemplates.id, id));
+    return template;
+  }
+
+  async listExportTemplates(organizationId: number): Promise<ExportTemplate[]> {
+    return await this.db
+      .select()
+      .from(exportTemplates)
+      .where(eq(exportTemplates.organizationId, organizationId))
+      .orderBy(asc(exportTemplates.name));
+  }
+
+  async updateExportTemplate(id: number, updates: UpdateExportTemplate): Promise<ExportTemplate | undefined> {
+    const [template] = await this.db
+      .update(exportTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(exportTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteExportTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(exportTemplates).where(eq(exportTemplates.id, id)).returning({ id: exportTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async createJournalProfile(insertProfile: InsertJournalProfile): Promise<JournalProfile> {
+    const [profile] = await this.db.insert(journalProfiles).values(insertProfile).returning();
+    return profile;
+  }
+
+  async getJournalProfile(id: number): Promise<JournalProfile | undefined> {
+    const [profile] = await this.db.select().from(journalProfiles).where(eq(journalProfiles.id, id));
+    return profile;
+  }
+
+  async listJournalProfiles(organizationId: number): Promise<JournalProfile[]> {
+    return await this.db
+      .select()
+      .from(journalProfiles)
+      .where(eq(journalProfiles.organizationId, organizationId))
+      .orderBy(asc(journalProfiles.name));
+  }
+
+  async updateJournalProfile(id: number, updates: UpdateJournalProfile): Promise<JournalProfile | undefined> {
+    const [profile] = await this.db
+      .update(journalProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(journalProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async deleteJournalProfile(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(journalProfiles).where(eq(journalProfiles.id, id)).returning({ id: journalProfiles.id });
+    return deleted.length > 0;
+  }
+
+  async createSession(insertSession: InsertScanSession, ownerId: number | null = null, organizationId: number | null = null, apiKeyId: number | null = null): Promise<ScanSession> {
+    const [session] = await this.db
+      .insert(scanSessions)
+      .values({ ...insertSession, ownerId, organizationId, apiKeyId })
+      .onConflictDoNothing({ target: scanSessions.sessionId })
+      .returning();
+
+    return session ?? (await this.getSession(insertSession.sessionId))!;
+  }
+
+  async getSession(sessionId: string): Promise<ScanSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(scanSessions)
+      .where(eq(scanSessions.sessionId, sessionId));
+    return session;
+  }
+
+  async updateSession(sessionId: string, updates: UpdateScanSession): Promise<ScanSession | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getSession(sessionId);
+    }
+
+    const [session] = await this.db
+      .update(scanSessions)
+      .set(updates)
+      .where(eq(scanSessions.sessionId, sessionId))
+      .returning();
+    return session;
+  }
+
+  async changeSessionStatus(sessionId: string, status: SessionStatus, changedBy: number | null, reason?: string): Promise<ScanSession | undefined> {
+    // better-sqlite3 transactions are synchronous
+    return this.db.transaction((tx) => {
+      const current = tx.select().from(scanSessions).where(eq(scanSessions.sessionId, sessionId)).get();
+      if (!current) return undefined;
+
+      const changedAt = new Date();
+      tx.insert(sessionStatusChanges).values({
+        sessionId,
+        fromStatus: current.status,
+        toStatus: status,
+        reason: reason || null,
+        changedBy,
+        changedAt,
+      }).run();
+
+      return tx
+        .update(scanSessions)
+        .set({ status, statusChangedAt: changedAt })
+        .where(eq(scanSessions.sessionId, sessionId))
+        .returning()
+        .get();
+    });
+  }
+
+  async getSessionStatusChanges(sessionId: string): Promise<SessionStatusChange[]> {
+    return this.db
+      .select()
+      .from(sessionStatusChanges)
+      .where(eq(sessionStatusChanges.sessionId, sessionId))
+      .orderBy(asc(sessionStatusChanges.changedAt), asc(sessionStatusChanges.id));
+  }
+
+  async listSessions(organizationId: number): Promise<SessionSummary[]> {
+    const rows = await this.db
+      .select({
+        session: scanSessions,
+        lastScannedAt: sql<Date | null>`max(${scannedQRs.scannedAt})`.mapWith(scannedQRs.scannedAt),
+        ...statsColumns,
+      })
+      .from(scanSessions)
+      .leftJoin(scannedQRs, and(eq(scannedQRs.sessionId, scanSessions.sessionId), isNull(scannedQRs.deletedAt)))
+      .where(eq(scanSessions.organizationId, organizationId))
+      .groupBy(scanSessions.id);
+
+    return sortSessionSummaries(rows.map(({ session, lastScannedAt, ...stats }) => ({
+      ...session,
+      stats,
+      lastScannedAt,
+    })));
+  }
+
+  async addScannedQR(insertQR: InsertScannedQR): Promise<ScannedQR> {
+    try {
+      const [qr] = await this.db.insert(scannedQRs).values(insertQR).returning();
+      return qr;
+    } catch (error) {
+      // Raised by scanned_qrs_session_raw_data_idx
+      if (isUniqueViolation(error)) {
+        throw new DuplicateQRError();
+      }
+      throw error;
+    }
+  }
+
+  async getScannedQR(id: number): Promise<ScannedQR | undefined> {
+    const [qr] = await this.db
+      .select()
+      .from(scannedQRs)
+      .where(and(eq(scannedQRs.id, id), isNull(scannedQRs.deletedAt)));
+    return qr;
+  }
+
+  async getScannedQRs(sessionId: string): Promise<ScannedQR[]> {
+    return this.db
+      .select()
+      .from(scannedQRs)
+      .where(and(eq(scannedQRs.sessionId, sessionId), isNull(scannedQRs.deletedAt)))
+      .orderBy(desc(scannedQRs.scannedAt), desc(scannedQRs.id));
+  }
+
+  async updateScannedQR(id: number, updates: Partial<InsertScannedQR>, changes: InsertScanRecordChange[]): Promise<ScannedQR | undefined> {
+    return this.db.transaction((tx) => {
+      // An empty update would be invalid SQL; the record is returned unchanged
+      const qr = Object.keys(updates).length > 0
+        ? tx.update(scannedQRs).set(updates).where(eq(scannedQRs.id, id)).returning().get()
+        : tx.select().from(scannedQRs).where(eq(scannedQRs.id, id)).get();
+      if (qr && changes.length > 0) {
+        tx.insert(scanRecordChanges).values(changes).run();
+      }
+      return qr;
+    });
+  }
+
+  async getScanRecordChanges(qrId: number): Promise<ScanRecordChange[]> {
+    return this.db
+      .select()
+      .from(scanRecordChanges)
+      .where(eq(scanRecordChanges.qrId, qrId))
+      .orderBy(desc(scanRecordChanges.changedAt), desc(scanRecordChanges.id));
+  }
+
+  async reassignScannedQRs(ids: number[], sessionId: string): Promise<ScannedQR[]> {
+    if (ids.length === 0) return [];
+    try {
+      return await this.db
+        .update(scannedQRs)
+        .set({ sessionId })
+        .where(and(inArray(scannedQRs.id, ids), isNull(scannedQRs.deletedAt)))
+        .returning();
+    } catch (error) {
+      // A scan with the same payload reached the target session first
+      if (isUniqueViolation(error)) {
+        throw new DuplicateQRError();
+      }
+      throw error;
+    }
+  }
+
+  async deleteScannedQR(id: number): Promise<boolean> {
+    const trashed = await this.db
+      .update(scannedQRs)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(scannedQRs.id, id), isNull(scannedQRs.deletedAt)))
+      .returning({ id: scannedQRs.id });
+    return trashed.length > 0;
+  }
+
+  async clearSessionQRs(sessionId: string): Promise<ScannedQR[]> {
+    return this.db
+      .update(scannedQRs)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(scannedQRs.sessionId, sessionId), isNull(scannedQRs.deletedAt)))
+      .returning();
+  }
+
+  async getTrashedQRs(sessionId: string): Promise<ScannedQR[]> {
+    return this.db
+      .select()
+      .from(scannedQRs)
+      .where(and(eq(scannedQRs.sessionId, sessionId), isNotNull(scannedQRs.deletedAt)))
+      .orderBy(desc(scannedQRs.deletedAt), desc(scannedQRs.id));
+  }
+
+  async restoreScannedQRs(ids: number[]): Promise<ScannedQR[]> {
+    if (ids.length === 0) return [];
+    try {
+      return await this.db
+        .update(scannedQRs)
+        .set({ deletedAt: null })
+        .where(and(inArray(scannedQRs.id, ids), isNotNull(scannedQRs.deletedAt)))
+        .returning();
+    } catch (error) {
+      // The same payload was scanned again while the record was in the trash
+      if (isUniqueViolation(error)) {
+        throw new DuplicateQRError();
+      }
+      throw error;
+    }
+  }
+
+  async purgeTrashedQRs(deletedBefore: Date): Promise<ScannedQR[]> {
+    return this.db
+      .delete(scannedQRs)
+      .where(lt(scannedQRs.deletedAt, deletedBefore))
+      .returning();
+  }
+
+  async getSessionStats(sessionId: string): Promise<SessionStats> {
+    const [stats] = await this.db
+      .select(statsColumns)
+      .from(scannedQRs)
+      .where(and(eq(scannedQRs.sessionId, sessionId), isNull(scannedQRs.deletedAt)));
+
+    return stats;
+  }
+
+  async appendAuditEntry(entry: NewAuditEntry): Promise<AuditEntry> {
+    // An immediate transaction holds the write lock while the chain end is read
+    return this.db.transaction((tx) => {
+      const previous = tx.select().from(auditLog).orderBy(desc(auditLog.sequence)).limit(1).get();
+      return tx.insert(auditLog).values(sealAuditEntry(entry, previous)).returning().get();
+    }, { behavior: "immediate" });
+  }
+
+  async getAuditEntries(query: AuditLogQuery = {}): Promise<AuditEntry[]> {
+    return this.db
+      .select()
+      .from(auditLog)
+      .where(auditConditions(query))
+      .orderBy(asc(auditLog.sequence));
+  }
+}
@@ -0,0 +1,161 @@
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import { scannedQRInputSchema } from "@shared/schema";
+import { DatabaseStorage } from "./pg-storage";
+import { openSQLiteDatabase, SQLiteStorage } from "./sqlite-storage";
+import { DuplicateQRError, type IStorage } from "./storage";
+import { verifyAuditChain } from "./audit-log";
+import { processScannedQR } from "./qr-processing";
+import { startTestApp, testQRCode, type TestClient } from "./test-app";
+
+const scan = (sessionId: string, rawData: string) => processScannedQR(scannedQRInputSchema.parse({ sessionId, rawData }));
+
+// The database backends with their migrations applied: Postgres in memory
+// runs the same SQL as Neon, SQLite the migrations/sqlite set
+const backends: [string, () => Promise<IStorage>][] = [
+  ["Postgres", async () => {
+    const db = drizzle(new PGlite(), { schema });
+    await migrate(db, { migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations") });
+    return new DatabaseStorage(db);
+  }],
+  ["SQLite", async () => new SQLiteStorage(openSQLiteDatabase(":memory:"))],
+];
+
+describe.each(backends)("%s storage", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+  }, 60_000);
+
+  describe("duplicates", () => {
+    it("rejects a payload that is already in the session", async () => {
+      await storage.createSession({ sessionId: "dup-add" });
+      await storage.addScannedQR(scan("dup-add", testQRCode("Alpha")));
+      await expect(storage.addScannedQR(scan("dup-add", testQRCode("Alpha")))).rejects.toBeInstanceOf(DuplicateQRError);
+    });
+
+    it("accepts the same payload in another session", async () => {
+      await storage.createSession({ sessionId: "dup-other" });
+      await expect(storage.addScannedQR(scan("dup-other", testQRCode("Alpha")))).resolves.toMatchObject({ sessionId: "dup-other" });
+    });
+
+    it("never treats manual entries as duplicates", async () => {
+      await storage.createSession({ sessionId: "dup-manual" });
+      const entry = processScannedQR(scannedQRInputSchema.parse({
+        sessionId: "dup-manual",
+        rawData: "manual-entry",
+        isManualEntry: true,
+        sellerName: "Alpha",
+        vatNumber: "300000000000003",
+        subtotal: "100.00",
+        vatAmount: "15.00",
+        totalAmount: "115.00",
+      }));
+      await storage.addScannedQR(entry);
+      await expect(storage.addScannedQR(entry)).resolves.toMatchObject({ isManualEntry: true });
+    });
+
+    it("rejects moving a record into a session that has its payload", async () => {
+      await storage.createSession({ sessionId: "dup-move-a" });
+      await storage.createSession({ sessionId: "dup-move-b" });
+      const moving = await storage.addScannedQR(scan("dup-move-a", testQRCode("Beta")));
+      await storage.addScannedQR(scan("dup-move-b", testQRCode("Beta")));
+      await expect(storage.reassignScannedQRs([moving.id], "dup-move-b")).rejects.toBeInstanceOf(DuplicateQRError);
+    });
+
+    it("rejects restoring a record whose payload was scanned again", async () => {
+      await storage.createSession({ sessionId: "dup-restore" });
+      const trashed = await storage.addScannedQR(scan("dup-restore", testQRCode("Gamma")));
+      await storage.deleteScannedQR(trashed.id);
+      await storage.addScannedQR(scan("dup-restore", testQRCode("Gamma")));
+      await expect(storage.restoreScannedQRs([trashed.id])).rejects.toBeInstanceOf(DuplicateQRError);
+    });
+  });
+
+  describe("trash", () => {
+    it("moves deleted and cleared records to the trash and restores them", async () => {
+      await storage.createSession({ sessionId: "trash-1" });
+      const deleted = await storage.addScannedQR(scan("trash-1", testQRCode("Alpha")));
+      const cleared = await storage.addScannedQR(scan("trash-1", testQRCode("Beta")));
+
+      expect(await storage.deleteScannedQR(deleted.id)).toBe(true);
+      expect((await storage.clearSessionQRs("trash-1")).map(qr => qr.id)).toEqual([cleared.id]);
+      expect(await storage.getScannedQRs("trash-1")).toEqual([]);
+      expect((await storage.getTrashedQRs("trash-1")).map(qr => qr.id).sort()).toEqual([deleted.id, cleared.id].sort());
+      expect((await storage.getSessionStats("trash-1")).totalScans).toBe(0);
+
+      const restored = await storage.restoreScannedQRs([deleted.id, cleared.id]);
+      expect(restored.map(qr => qr.deletedAt)).toEqual([null, null]);
+      expect(await storage.getScannedQRs("trash-1")).toHaveLength(2);
+      expect(await storage.getTrashedQRs("trash-1")).toEqual([]);
+    });
+
+    it("purges only what was deleted before the cutoff", async () => {
+      await storage.createSession({ sessionId: "trash-2" });
+      const kept = await storage.addScannedQR(scan("trash-2", testQRCode("Alpha")));
+      const purged = await storage.addScannedQR(scan("trash-2", testQRCode("Beta")));
+      await storage.deleteScannedQR(purged.id);
+
+      const gone = await storage.purgeTrashedQRs(new Date(Date.now() + 1000));
+      expect(gone.map(qr => qr.id)).toContain(purged.id);
+      expect(await storage.getScannedQR(purged.id)).toBeUndefined();
+      expect(await storage.getScannedQR(kept.id)).toMatchObject({ deletedAt: null });
+    });
+  });
+
+  describe("status history", () => {
+    it("records each change with the member who made it", async () => {
+      await storage.createSession({ sessionId: "status-1" });
+      await storage.changeSessionStatus("status-1", "locked", 7);
+      await expect(storage.changeSessionStatus("status-1", "open", 8, "Corrected invoice")).resolves.toMatchObject({ status: "open" });
+
+      expect(await storage.getSessionStatusChanges("status-1")).toMatchObject([
+        { fromStatus: "open", toStatus: "locked", reason: null, changedBy: 7 },
+        { fromStatus: "locked", toStatus: "open", reason: "Corrected invoice", changedBy: 8 },
+      ]);
+    });
+  });
+
+  describe("audit log", () => {
+    it("appends entries to a chain that verifies", async () => {
+      await storage.appendAuditEntry({ action: "session.create", sessionId: "audit-1", actor: "alice", details: { name: "March" } });
+      await storage.appendAuditEntry({ action: "qr.create", sessionId: "audit-1", qrId: 1, actor: "alice", details: { sellerName: "شركة" } });
+      await storage.appendAuditEntry({ action: "session.create", sessionId: "audit-2", actor: "bob", details: null });
+
+      const chain = await storage.getAuditEntries();
+      expect(chain.map(entry => entry.sequence)).toEqual([1, 2, 3]);
+      expect(verifyAuditChain(chain)).toMatchObject({ valid: true });
+      expect((await storage.getAuditEntries({ sessionId: "audit-1" })).map(entry => entry.action)).toEqual(["session.create", "qr.create"]);
+    });
+  });
+
+  describe("POST /api/qr-codes", () => {
+    let app: Awaited<ReturnType<typeof startTestApp>>;
+    let request: TestClient;
+
+    beforeAll(async () => {
+      app = await startTestApp(storage);
+      request = await app.register("alice");
+    });
+
+    afterAll(() => app.close());
+
+    it("answers 409 for a duplicate scan", async () => {
+      await request("POST", "/api/sessions", { sessionId: "dup-route" });
+      const first = await request("POST", "/api/qr-codes", { sessionId: "dup-route", rawData: testQRCode("Delta") });
+      expect(first.status).toBe(201);
+
+      const second = await request("POST", "/api/qr-codes", { sessionId: "dup-route", rawData: testQRCode("Delta") });
+      expect(second).toEqual({
+        status: 409,
+        body: { message: "Duplicate QR code detected in this session", error: "Duplicate QR code detected in this session" },
+      });
+      expect((await request("GET", "/api/qr-codes/dup-route")).body).toHaveLength(1);
+    });
+  });
+});
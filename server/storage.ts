@@ -3,48 +3,381 @@ import {
   scannedQRs, 
   type ScanSession, 
   type InsertScanSession,
+  type UpdateScanSession,
   type ScannedQR,
-  type InsertScannedQR 
+  type InsertScannedQR,
+  type SessionStats,
+  type SessionSummary,
+  type SessionStatusChange,
+  type ScanRecordChange,
+  type InsertScanRecordChange,
+  type AuditEntry,
+  type NewAuditEntry,
+  type AuditLogQuery,
+  type User,
+  type InsertUser,
+  type Organization,
+  type UpdateOrganization,
+  type ApiKey,
+  type InsertApiKey,
+  type ExportTemplate,
+  type InsertExportTemplate,
+  type UpdateExportTemplate,
+  type JournalProfile,
+  type InsertJournalProfile,
+  type UpdateJournalProfile
 } from "@shared/schema";
+import type { SessionStatus } from "@shared/session-status";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { sealAuditEntry } from "./audit-log";
+
+const MemoryStore = createMemoryStore(session);
+
+// Login sessions for backends without a session table; lost on restart
+export function createMemorySessionStore(): session.Store {
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// Raised by every backend when a scanned payload is already in the session
+export class DuplicateQRError extends Error {
+  constructor() {
+    super('Duplicate QR code detected in this session');
+  }
+}
 
 export interface IStorage {
+  // Where express-session keeps logins
+  sessionStore: session.Store;
+  
+  // Organizations
+  createOrganization(name: string): Promise<Organization>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  updateOrganization(id: number, updates: UpdateOrganization): Promise<Organization | undefined>;
+  
+  // User accounts; every account is a member of one organization
+  createUser(user: InsertUser): Promise<User>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  listUsers(organizationId: number): Promise<User[]>;
+  updateUser(id: number, updates: Partial<Pick<InsertUser, 'organizationId' | 'role'>>): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
+  // Gives an organization the sessions, not yet in one, that the user created
+  // and, with includeOwnerless, those that have no owner at all; returns how
+  // many were claimed
+  claimUnownedSessions(organizationId: number, ownerId: number, includeOwnerless: boolean): Promise<number>;
+  
+  // API keys are looked up by the hash of the key; revoking keeps the row
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  getApiKey(id: number): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  listApiKeys(organizationId: number): Promise<ApiKey[]>;
+  revokeApiKey(id: number): Promise<ApiKey | undefined>;
+  touchApiKey(id: number, usedAt: Date): Promise<void>;
+  
+  // Export templates; names are unique within an organization
+  createExportTemplate(template: InsertExportTemplate): Promise<ExportTemplate>;
+  getExportTemplate(id: number): Promise<ExportTemplate | undefined>;
+  listExportTemplates(organizationId: number): Promise<ExportTemplate[]>;
+  updateExportTemplate(id: number, updates: UpdateExportTemplate): Promise<ExportTemplate | undefined>;
+  deleteExportTemplate(id: number): Promise<boolean>;
+  
+  // Journal profiles; names are unique within an organization
+  createJournalProfile(profile: InsertJournalProfile): Promise<JournalProfile>;
+  getJournalProfile(id: number): Promise<JournalProfile | undefined>;
+  listJournalProfiles(organizationId: number): Promise<JournalProfile[]>;
+  updateJournalProfile(id: number, updates: UpdateJournalProfile): Promise<JournalProfile | undefined>;
+  deleteJournalProfile(id: number): Promise<boolean>;
+  
   // Session management
-  createSession(session: InsertScanSession): Promise<ScanSession>;
+  // ownerId is null for sessions created with an API key, given as apiKeyId
+  createSession(session: InsertScanSession, ownerId?: number | null, organizationId?: number | null, apiKeyId?: number | null): Promise<ScanSession>;
   getSession(sessionId: string): Promise<ScanSession | undefined>;
+  listSessions(organizationId: number): Promise<SessionSummary[]>;
+  updateSession(sessionId: string, updates: UpdateScanSession): Promise<ScanSession | undefined>;
+  
+  // Session lifecycle; every change is recorded in the status history
+  changeSessionStatus(sessionId: string, status: SessionStatus, changedBy: number | null, reason?: string): Promise<ScanSession | undefined>;
+  getSessionStatusChanges(sessionId: string): Promise<SessionStatusChange[]>;
   
-  // QR code management
+  // QR code management; records in the trash are left out unless asked for
   addScannedQR(qr: InsertScannedQR): Promise<ScannedQR>;
+  getScannedQR(id: number): Promise<ScannedQR | undefined>;
   getScannedQRs(sessionId: string): Promise<ScannedQR[]>;
+  // Applies an edit and stores its field-level history in one step
+  updateScannedQR(id: number, updates: Partial<InsertScannedQR>, changes: InsertScanRecordChange[]): Promise<ScannedQR | undefined>;
+  getScanRecordChanges(qrId: number): Promise<ScanRecordChange[]>;
+  reassignScannedQRs(ids: number[], sessionId: string): Promise<ScannedQR[]>;
+  
+  // Trash: deleting and clearing move records to the session's trash, from
+  // where they are restored or, after the retention period, purged
   deleteScannedQR(id: number): Promise<boolean>;
-  clearSessionQRs(sessionId: string): Promise<boolean>;
+  clearSessionQRs(sessionId: string): Promise<ScannedQR[]>;
+  getTrashedQRs(sessionId: string): Promise<ScannedQR[]>;
+  restoreScannedQRs(ids: number[]): Promise<ScannedQR[]>;
+  purgeTrashedQRs(deletedBefore: Date): Promise<ScannedQR[]>;
   
   // Statistics
-  getSessionStats(sessionId: string): Promise<{
-    totalScans: number;
-    validScans: number;
-    totalAmount: number;
-    errors: number;
-  }>;
+  getSessionStats(sessionId: string): Promise<SessionStats>;
+  
+  // Audit trail: entries are appended to the hash chain and never changed
+  appendAuditEntry(entry: NewAuditEntry): Promise<AuditEntry>;
+  // Oldest first
+  getAuditEntries(query?: AuditLogQuery): Promise<AuditEntry[]>;
+}
+
+// Most recently used sessions first
+export function sortSessionSummaries(summaries: SessionSummary[]): SessionSummary[] {
+  const lastUsed = (s: SessionSummary) => (s.lastScannedAt ?? s.createdAt).getTime();
+  return summaries.sort((a, b) => lastUsed(b) - lastUsed(a));
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private organizations: Map<number, Organization>;
+  private users: Map<number, User>;
+  private apiKeys: Map<number, ApiKey>;
+  private exportTemplates: Map<number, ExportTemplate>;
+  private journalProfiles: Map<number, JournalProfile>;
   private sessions: Map<string, ScanSession>;
   private qrs: Map<number, ScannedQR>;
+  private statusChanges: SessionStatusChange[];
+  private recordChanges: ScanRecordChange[];
+  private auditEntries: AuditEntry[];
+  private currentOrganizationId: number;
+  private currentUserId: number;
+  private currentApiKeyId: number;
+  private currentExportTemplateId: number;
+  private currentJournalProfileId: number;
   private currentSessionId: number;
   private currentQRId: number;
 
   constructor() {
+    this.sessionStore = createMemorySessionStore();
+    this.organizations = new Map();
+    this.users = new Map();
+    this.apiKeys = new Map();
+    this.exportTemplates = new Map();
+    this.journalProfiles = new Map();
     this.sessions = new Map();
     this.qrs = new Map();
+    this.statusChanges = [];
+    this.recordChanges = [];
+    this.auditEntries = [];
+    this.currentOrganizationId = 1;
+    this.currentUserId = 1;
+    this.currentApiKeyId = 1;
+    this.currentExportTemplateId = 1;
+    this.currentJournalProfileId = 1;
     this.currentSessionId = 1;
     this.currentQRId = 1;
   }
 
-  async createSession(insertSession: InsertScanSession): Promise<ScanSession> {
+  async createOrganization(name: string): Promise<Organization> {
+    const organization: Organization = { id: this.currentOrganizationId++, name, createdAt: new Date() };
+    this.organizations.set(organization.id, organization);
+    return organization;
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async updateOrganization(id: number, updates: UpdateOrganization): Promise<Organization | undefined> {
+    const organization = this.organizations.get(id);
+    if (!organization) return undefined;
+    const updated: Organization = { ...organization, ...updates };
+    this.organizations.set(id, updated);
+    return updated;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error('Username already exists');
+    }
+    const user: User = {
+      id: this.currentUserId++,
+      username: insertUser.username,
+      passwordHash: insertUser.passwordHash,
+      organizationId: insertUser.organizationId ?? null,
+      role: insertUser.role || 'scanner',
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async listUsers(organizationId: number): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => user.organizationId === organizationId);
+  }
+
+  async updateUser(id: number, updates: Partial<Pick<InsertUser, 'organizationId' | 'role'>>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated: User = { ...user, ...updates };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  async claimUnownedSessions(organizationId: number, ownerId: number, includeOwnerless: boolean): Promise<number> {
+    const unclaimed = Array.from(this.sessions.values()).filter(session =>
+      session.organizationId === null && (session.ownerId === ownerId || (includeOwnerless && session.ownerId === null))
+    );
+    unclaimed.forEach(session => this.sessions.set(session.sessionId, { ...session, ownerId: session.ownerId ?? ownerId, organizationId }));
+    return unclaimed.length;
+  }
+
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const apiKey: ApiKey = {
+      id: this.currentApiKeyId++,
+      organizationId: insertKey.organizationId,
+      name: insertKey.name,
+      keyPrefix: insertKey.keyPrefix,
+      keyHash: insertKey.keyHash,
+      scopes: insertKey.scopes,
+      createdBy: insertKey.createdBy,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    this.apiKeys.set(apiKey.id, apiKey);
+    return apiKey;
+  }
+
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(id);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(apiKey => apiKey.keyHash === keyHash);
+  }
+
+  async listApiKeys(organizationId: number): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(apiKey => apiKey.organizationId === organizationId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async revokeApiKey(id: number): Promise<ApiKey | undefined> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey) return undefined;
+    const revoked: ApiKey = { ...apiKey, revokedAt: apiKey.revokedAt ?? new Date() };
+    this.apiKeys.set(id, revoked);
+    return revoked;
+  }
+
+  async touchApiKey(id: number, usedAt: Date): Promise<void> {
+    const apiKey = this.apiKeys.get(id);
+    if (apiKey) this.apiKeys.set(id, { ...apiKey, lastUsedAt: usedAt });
+  }
+
+  async createExportTemplate(insertTemplate: InsertExportTemplate): Promise<ExportTemplate> {
+    const now = new Date();
+    const template: ExportTemplate = {
+      id: this.currentExportTemplateId++,
+      organizationId: insertTemplate.organizationId,
+      name: insertTemplate.name,
+      settings: insertTemplate.settings,
+      createdBy: insertTemplate.createdBy ?? null,
+      apiKeyId: insertTemplate.apiKeyId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.exportTemplates.set(template.id, template);
+    return template;
+  }
+
+  async getExportTemplate(id: number): Promise<ExportTemplate | undefined> {
+    return this.exportTemplates.get(id);
+  }
+
+  async listExportTemplates(organizationId: number): Promise<ExportTemplate[]> {
+    return Array.from(this.exportTemplates.values())
+      .filter(template => template.organizationId === organizationId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateExportTemplate(id: number, updates: UpdateExportTemplate): Promise<ExportTemplate | undefined> {
+    const template = this.exportTemplates.get(id);
+    if (!template) return undefined;
+    const updated: ExportTemplate = { ...template, ...updates, updatedAt: new Date() };
+    this.exportTemplates.set(id, updated);
+    return updated;
+  }
+
+  async deleteExportTemplate(id: number): Promise<boolean> {
+    return this.exportTemplates.delete(id);
+  }
+
+  async createJournalProfile(insertProfile: InsertJournalProfile): Promise<JournalProfile> {
+    const now = new Date();
+    const profile: JournalProfile = {
+      id: this.currentJournalProfileId++,
+      organizationId: insertProfile.organizationId,
+      name: insertProfile.name,
+      settings: insertProfile.settings,
+      createdBy: insertProfile.createdBy ?? null,
+      apiKeyId: insertProfile.apiKeyId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.journalProfiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async getJournalProfile(id: number): Promise<JournalProfile | undefined> {
+    return this.journalProfiles.get(id);
+  }
+
+  async listJournalProfiles(organizationId: number): Promise<JournalProfile[]> {
+    return Array.from(this.journalProfiles.values())
+      .filter(profile => profile.organizationId === organizationId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateJournalProfile(id: number, updates: UpdateJournalProfile): Promise<JournalProfile | undefined> {
+    const profile = this.journalProfiles.get(id);
+    if (!profile) return undefined;
+    const updated: JournalProfile = { ...profile, ...updates, updatedAt: new Date() };
+    this.journalProfiles.set(id, updated);
+    return updated;
+  }
+
+  async deleteJournalProfile(id: number): Promise<boolean> {
+    return this.journalProfiles.delete(id);
+  }
+
+  async createSession(insertSession: InsertScanSession, ownerId: number | null = null, organizationId: number | null = null, apiKeyId: number | null = null): Promise<ScanSession> {
+    // Resuming a session must not reset it
+    const existing = this.sessions.get(insertSession.sessionId);
+    if (existing) return existing;
+
     const id = this.currentSessionId++;
     const session: ScanSession = {
-      ...insertSession,
       id,
+      sessionId: insertSession.sessionId,
+      ownerId,
+      apiKeyId,
+      organizationId,
+      name: insertSession.name || null,
+      client: insertSession.client || null,
+      taxPeriod: insertSession.taxPeriod || null,
+      costCenter: insertSession.costCenter || null,
+      notes: insertSession.notes || null,
+      status: 'open',
+      statusChangedAt: null,
       createdAt: new Date(),
     };
     this.sessions.set(session.sessionId, session);
@@ -55,14 +388,64 @@ export class MemStorage implements IStorage {
     return this.sessions.get(sessionId);
   }
 
+  async updateSession(sessionId: string, updates: UpdateScanSession): Promise<ScanSession | undefined> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    const updated: ScanSession = { ...session };
+    for (const [key, value] of Object.entries(updates) as [keyof UpdateScanSession, string | null | undefined][]) {
+      if (value !== undefined) updated[key] = value;
+    }
+    this.sessions.set(sessionId, updated);
+    return updated;
+  }
+
+  async changeSessionStatus(sessionId: string, status: SessionStatus, changedBy: number | null, reason?: string): Promise<ScanSession | undefined> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    const changedAt = new Date();
+    this.statusChanges.push({
+      id: this.statusChanges.length + 1,
+      sessionId,
+      fromStatus: session.status,
+      toStatus: status,
+      reason: reason || null,
+      changedBy,
+      changedAt,
+    });
+
+    const updated: ScanSession = { ...session, status, statusChangedAt: changedAt };
+    this.sessions.set(sessionId, updated);
+    return updated;
+  }
+
+  async getSessionStatusChanges(sessionId: string): Promise<SessionStatusChange[]> {
+    return this.statusChanges.filter(change => change.sessionId === sessionId);
+  }
+
+  async listSessions(organizationId: number): Promise<SessionSummary[]> {
+    const summaries = await Promise.all(
+      Array.from(this.sessions.values()).filter(session => session.organizationId === organizationId).map(async (session) => {
+        const qrs = await this.getScannedQRs(session.sessionId);
+        return {
+          ...session,
+          stats: await this.getSessionStats(session.sessionId),
+          lastScannedAt: qrs[0]?.scannedAt ?? null,
+        };
+      })
+    );
+    return sortSessionSummaries(summaries);
+  }
+
   async addScannedQR(insertQR: InsertScannedQR): Promise<ScannedQR> {
     // Only check for duplicates if it's not a manual entry
     if (!insertQR.isManualEntry) {
       const existingQRs = Array.from(this.qrs.values())
-        .filter(qr => qr.sessionId === insertQR.sessionId && qr.rawData === insertQR.rawData);
+        .filter(qr => qr.sessionId === insertQR.sessionId && qr.rawData === insertQR.rawData && !qr.deletedAt);
       
       if (existingQRs.length > 0) {
-        throw new Error('Duplicate QR code detected in this session');
+        throw new DuplicateQRError();
       }
     }
     
@@ -74,44 +457,118 @@ export class MemStorage implements IStorage {
       rawData: insertQR.rawData,
       sellerName: insertQR.sellerName || null,
       vatNumber: insertQR.vatNumber || null,
+      vatNumberError: insertQR.vatNumberError || null,
       invoiceNumber: insertQR.invoiceNumber || null,
+      invoiceNumberSource: insertQR.invoiceNumber ? (insertQR.invoiceNumberSource || 'manual') : 'missing',
       invoiceDate: insertQR.invoiceDate || null,
+      invoiceTimezone: insertQR.invoiceTimezone || null,
       subtotal: insertQR.subtotal || null,
       vatAmount: insertQR.vatAmount || null,
       totalAmount: insertQR.totalAmount || null,
+      zeroRated: insertQR.zeroRated || false,
+      amountFlags: insertQR.amountFlags || null,
       isManualEntry: insertQR.isManualEntry || false,
       notes: insertQR.notes || null,
+      invoiceHash: insertQR.invoiceHash || null,
+      signature: insertQR.signature || null,
+      publicKey: insertQR.publicKey || null,
+      stampSignature: insertQR.stampSignature || null,
+      signatureStatus: insertQR.signatureStatus || null,
+      parseDiagnostics: insertQR.parseDiagnostics || null,
       scannedAt: new Date(),
+      deletedAt: null,
     };
     this.qrs.set(id, qr);
     return qr;
   }
 
+  async getScannedQR(id: number): Promise<ScannedQR | undefined> {
+    const qr = this.qrs.get(id);
+    return qr && !qr.deletedAt ? qr : undefined;
+  }
+
   async getScannedQRs(sessionId: string): Promise<ScannedQR[]> {
     return Array.from(this.qrs.values())
-      .filter(qr => qr.sessionId === sessionId)
+      .filter(qr => qr.sessionId === sessionId && !qr.deletedAt)
       .sort((a, b) => b.scannedAt.getTime() - a.scannedAt.getTime());
   }
 
-  async deleteScannedQR(id: number): Promise<boolean> {
-    return this.qrs.delete(id);
+  async updateScannedQR(id: number, updates: Partial<InsertScannedQR>, changes: InsertScanRecordChange[]): Promise<ScannedQR | undefined> {
+    const qr = this.qrs.get(id);
+    if (!qr) return undefined;
+    
+    const updated: ScannedQR = { ...qr, ...updates } as ScannedQR;
+    this.qrs.set(id, updated);
+    changes.forEach(change => {
+      this.recordChanges.push({
+        id: this.recordChanges.length + 1,
+        qrId: change.qrId,
+        sessionId: change.sessionId,
+        field: change.field,
+        oldValue: change.oldValue ?? null,
+        newValue: change.newValue ?? null,
+        changedBy: change.changedBy ?? null,
+        changedAt: new Date(),
+      });
+    });
+    return updated;
   }
 
-  async clearSessionQRs(sessionId: string): Promise<boolean> {
-    const qrsToDelete = Array.from(this.qrs.entries())
-      .filter(([_, qr]) => qr.sessionId === sessionId)
-      .map(([id]) => id);
-    
-    qrsToDelete.forEach(id => this.qrs.delete(id));
+  async getScanRecordChanges(qrId: number): Promise<ScanRecordChange[]> {
+    return this.recordChanges.filter(change => change.qrId === qrId).reverse();
+  }
+
+  async reassignScannedQRs(ids: number[], sessionId: string): Promise<ScannedQR[]> {
+    const moved: ScannedQR[] = [];
+    for (const id of ids) {
+      const qr = this.qrs.get(id);
+      if (!qr || qr.deletedAt) continue;
+      const updated: ScannedQR = { ...qr, sessionId };
+      this.qrs.set(id, updated);
+      moved.push(updated);
+    }
+    return moved;
+  }
+
+  async deleteScannedQR(id: number): Promise<boolean> {
+    const qr = await this.getScannedQR(id);
+    if (!qr) return false;
+    this.qrs.set(id, { ...qr, deletedAt: new Date() });
     return true;
   }
 
-  async getSessionStats(sessionId: string): Promise<{
-    totalScans: number;
-    validScans: number;
-    totalAmount: number;
-    errors: number;
-  }> {
+  async clearSessionQRs(sessionId: string): Promise<ScannedQR[]> {
+    const deletedAt = new Date();
+    const trashed = (await this.getScannedQRs(sessionId)).map(qr => ({ ...qr, deletedAt }));
+    trashed.forEach(qr => this.qrs.set(qr.id, qr));
+    return trashed;
+  }
+
+  async getTrashedQRs(sessionId: string): Promise<ScannedQR[]> {
+    return Array.from(this.qrs.values())
+      .filter(qr => qr.sessionId === sessionId && qr.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async restoreScannedQRs(ids: number[]): Promise<ScannedQR[]> {
+    const restored: ScannedQR[] = [];
+    for (const id of ids) {
+      const qr = this.qrs.get(id);
+      if (!qr || !qr.deletedAt) continue;
+      const updated: ScannedQR = { ...qr, deletedAt: null };
+      this.qrs.set(id, updated);
+      restored.push(updated);
+    }
+    return restored;
+  }
+
+  async purgeTrashedQRs(deletedBefore: Date): Promise<ScannedQR[]> {
+    const purged = Array.from(this.qrs.values()).filter(qr => qr.deletedAt && qr.deletedAt < deletedBefore);
+    purged.forEach(qr => this.qrs.delete(qr.id));
+    return purged;
+  }
+
+  async getSessionStats(sessionId: string): Promise<SessionStats> {
     const qrs = await this.getScannedQRs(sessionId);
     const validQRs = qrs.filter(qr => qr.status === 'valid');
     
@@ -122,6 +579,53 @@ export class MemStorage implements IStorage {
       errors: qrs.filter(qr => qr.status === 'invalid').length,
     };
   }
+
+  async appendAuditEntry(entry: NewAuditEntry): Promise<AuditEntry> {
+    const previous = this.auditEntries[this.auditEntries.length - 1];
+    const appended: AuditEntry = { id: this.auditEntries.length + 1, ...sealAuditEntry(entry, previous) };
+    this.auditEntries.push(appended);
+    return appended;
+  }
+
+  async getAuditEntries(query: AuditLogQuery = {}): Promise<AuditEntry[]> {
+    return this.auditEntries.filter(entry =>
+      (query.sessionId === undefined || entry.sessionId === query.sessionId) &&
+      (query.qrId === undefined || entry.qrId === query.qrId) &&
+      (query.action === undefined || entry.action === query.action) &&
+      (query.from === undefined || entry.createdAt >= query.from) &&
+      (query.to === undefined || entry.createdAt <= query.to)
+    );
+  }
 }
 
-export const storage = new MemStorage();
+export type StorageBackend = 'memory' | 'postgres' | 'sqlite';
+
+/**
+ * Creates the storage backend named by STORAGE_BACKEND. Without one, Postgres
+ * is used when DATABASE_URL is set and in-memory storage otherwise.
+ * Migrations for the database backends run on startup.
+ */
+export async function createStorage(backend?: string): Promise<IStorage> {
+  const selected = backend || (process.env.DATABASE_URL ? 'postgres' : 'memory');
+
+  switch (selected as StorageBackend) {
+    case 'memory':
+      return new MemStorage();
+    case 'postgres': {
+      const { connectDatabase, migrateDatabase } = await import("./db");
+      const { DatabaseStorage } = await import("./pg-storage");
+      const { default: connectPgSimple } = await import("connect-pg-simple");
+      const db = connectDatabase();
+      await migrateDatabase(db);
+      const PostgresSessionStore = connectPgSimple(session);
+      return new DatabaseStorage(db, new PostgresSessionStore({ pool: db.$client, createTableIfMissing: true }));
+    }
+    case 'sqlite': {
+      // Loaded lazily so the native module is only needed on machines that use it
+      const { openSQLiteDatabase, SQLiteStorage } = await import("./sqlite-storage");
+      return new SQLiteStorage(openSQLiteDatabase());
+    }
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${selected}"`);
+  }
+}
@@ -0,0 +1,76 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { registerRoutes } from "./routes";
+import { MemStorage, type IStorage } from "./storage";
+
+// A Phase 1 ZATCA code; sellers make payloads that differ
+export function testQRCode(sellerName: string) {
+  const field = (tag: number, value: string) => {
+    const bytes = Buffer.from(value);
+    return Buffer.concat([Buffer.from([tag, bytes.length]), bytes]);
+  };
+  return Buffer.concat([
+    field(1, sellerName),
+    field(2, "300000000000003"),
+    field(3, "2024-05-01T10:15:00+03:00"),
+    field(4, "115.00"),
+    field(5, "15.00"),
+  ]).toString("base64");
+}
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+export type TestClient = (method: string, url: string, body?: unknown) => Promise<TestResponse>;
+
+/**
+ * The API on a free local port, for route tests. Each client keeps its own
+ * login cookie; a client made with headers, such as an API key, sends them
+ * with every request instead.
+ */
+export async function startTestApp(storage: IStorage = new MemStorage()) {
+  const app = express();
+  app.use(express.json());
+  const server: Server = await registerRoutes(app, storage);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const client = (headers: Record<string, string> = {}): TestClient => {
+    let cookie = "";
+    return async (method, url, body) => {
+      const response = await fetch(baseUrl + url, {
+        method,
+        headers: { "content-type": "application/json", ...(cookie && { cookie }), ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      cookie = response.headers.get("set-cookie")?.split(";")[0] ?? cookie;
+      const text = await response.text();
+      const isJson = response.headers.get("content-type")?.includes("application/json");
+      return { status: response.status, body: isJson ? JSON.parse(text) : text };
+    };
+  };
+
+  // A new account, which is the admin of an organization of its own
+  const register = async (username: string) => {
+    const request = client();
+    const { status } = await request("POST", "/api/register", { username, password: "password1" });
+    if (status !== 201) throw new Error(`Could not register ${username}: ${status}`);
+    return request;
+  };
+
+  // A member the admin adds to their organization, logged in
+  const addMember = async (admin: TestClient, username: string, role: string) => {
+    const { status } = await admin("POST", "/api/organization/members", { username, password: "password1", role });
+    if (status !== 201) throw new Error(`Could not add ${username}: ${status}`);
+    const request = client();
+    await request("POST", "/api/login", { username, password: "password1" });
+    return request;
+  };
+
+  const close = () => new Promise<void>(resolve => server.close(() => resolve()));
+
+  return { storage, client, register, addMember, close };
+}
@@ -0,0 +1,87 @@
+import type { RestoreReport, ScannedQR, TransferConflict } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { attributeAuditEntry, describeScannedQR, type AuditActor } from "./audit-log";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Days a record stays in the trash, from TRASH_RETENTION_DAYS
+export function getTrashRetentionDays(value = process.env.TRASH_RETENTION_DAYS): number {
+  const days = Number(value);
+  return value && Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Takes records out of a session's trash. A scanned record whose payload was
+ * scanned again while it was in the trash would be a duplicate, so it stays
+ * in the trash and is reported instead, like a conflicting move.
+ */
+export async function restoreScans(storage: IStorage, sessionId: string, ids: number[], actor?: AuditActor): Promise<RestoreReport> {
+  const trashed = new Map((await storage.getTrashedQRs(sessionId)).map(qr => [qr.id, qr]));
+  const conflicts: TransferConflict[] = [];
+  const candidates: ScannedQR[] = [];
+
+  for (const id of Array.from(new Set(ids))) {
+    const qr = trashed.get(id);
+    if (qr) {
+      candidates.push(qr);
+    } else {
+      conflicts.push({ id, reason: 'not_found' });
+    }
+  }
+
+  const seen = new Map<string, number>();
+  for (const qr of await storage.getScannedQRs(sessionId)) {
+    if (!qr.isManualEntry) seen.set(qr.rawData, qr.id);
+  }
+
+  const accepted: number[] = [];
+  for (const qr of candidates) {
+    const existingId = qr.isManualEntry ? undefined : seen.get(qr.rawData);
+    if (existingId !== undefined) {
+      conflicts.push({ id: qr.id, reason: 'duplicate', existingId, sellerName: qr.sellerName });
+      continue;
+    }
+    if (!qr.isManualEntry) seen.set(qr.rawData, qr.id);
+    accepted.push(qr.id);
+  }
+
+  const restored = await storage.restoreScannedQRs(accepted);
+  for (const qr of restored) {
+    await storage.appendAuditEntry(attributeAuditEntry({ action: 'qr.restore', sessionId, qrId: qr.id }, actor));
+  }
+  return { restored: restored.map(qr => qr.id), conflicts };
+}
+
+// Deletes records that have been in the trash longer than the retention
+// period. Each session gets an entry of its own, so its organization sees it.
+export async function purgeExpiredTrash(storage: IStorage, retentionDays = getTrashRetentionDays()): Promise<number> {
+  const deletedBefore = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const purged = await storage.purgeTrashedQRs(deletedBefore);
+  const bySession = new Map<string, ScannedQR[]>();
+  for (const qr of purged) {
+    bySession.set(qr.sessionId, [...(bySession.get(qr.sessionId) ?? []), qr]);
+  }
+  for (const [sessionId, records] of Array.from(bySession)) {
+    await storage.appendAuditEntry({
+      action: 'trash.purge',
+      sessionId,
+      details: {
+        retentionDays,
+        count: records.length,
+        records: records.map(qr => ({ id: qr.id, ...describeScannedQR(qr) })),
+      },
+    });
+  }
+  return purged.length;
+}
+
+// Purges on startup and then every hour
+export function scheduleTrashPurge(storage: IStorage, log: (message: string) => void = console.log) {
+  const run = () => purgeExpiredTrash(storage)
+    .then(count => count > 0 && log(`purged ${count} record(s) from the trash`))
+    .catch(error => log(`trash purge failed: ${error instanceof Error ? error.message : error}`));
+
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
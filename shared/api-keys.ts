@@ -0,0 +1,14 @@
+// What an API key may do. Keys belong to an organization and reach its
+// sessions like a member would, limited to their scopes.
+export const API_KEY_SCOPES = ['read', 'write', 'export'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  read: 'Read sessions, records, statistics and the audit log',
+  write: 'Create sessions, add scans and change records',
+  export: 'Download exports and the audit log',
+};
+
+// Keys are shown once, on creation; afterwards only this prefix identifies them
+export const API_KEY_PREFIX = 'zsk_';
@@ -0,0 +1,32 @@
+// What the audit trail records. Session and record changes are logged by the
+// routes that make them; exports are logged when the server generates the file.
+export const AUDIT_ACTIONS = [
+  'session.create',
+  'session.update',
+  'session.status',
+  'session.clear',
+  'session.merge',
+  'session.split',
+  'session.export',
+  'qr.create',
+  'qr.edit',
+  'qr.move',
+  'qr.delete',
+  'qr.restore',
+  'trash.purge',
+  'audit.export',
+  'organization.update',
+  'member.add',
+  'member.update',
+  'member.remove',
+  'apikey.create',
+  'apikey.revoke',
+  'template.create',
+  'template.update',
+  'template.delete',
+  'journal.create',
+  'journal.update',
+  'journal.delete',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { ScannedQR } from './schema';
+import { csvText, toCSV } from './data-export';
+
+const record = (fields: Partial<ScannedQR>) => ({
+  id: 1,
+  status: 'valid',
+  sellerName: 'Seller',
+  vatNumber: '300000000000003',
+  vatNumberError: null,
+  invoiceNumber: 'INV-1',
+  invoiceNumberSource: 'manual',
+  invoiceDate: new Date('2024-05-01T07:15:00Z'),
+  invoiceTimezone: '+03:00',
+  subtotal: '100.00',
+  vatAmount: '15.00',
+  totalAmount: '115.00',
+  zeroRated: false,
+  isManualEntry: true,
+  signatureStatus: 'unsigned',
+  notes: null,
+  scannedAt: new Date('2024-05-01T08:00:00Z'),
+  ...fields,
+}) as ScannedQR;
+
+describe('csvText', () => {
+  it('quotes fields with the delimiter, quotes, line breaks or outer spaces', () => {
+    expect(csvText('a,b', ',')).toBe('"a,b"');
+    expect(csvText('a,b', ';')).toBe('a,b');
+    expect(csvText('say "hi"', ',')).toBe('"say ""hi"""');
+    expect(csvText('two\nlines', ',')).toBe('"two\nlines"');
+    expect(csvText(' padded', ',')).toBe('" padded"');
+  });
+
+  it('writes text that starts like a formula with a leading apostrophe', () => {
+    expect(csvText('=1+1', ',')).toBe("'=1+1");
+    expect(csvText('+966500000000', ',')).toBe("'+966500000000");
+    expect(csvText('-2+3', ',')).toBe("'-2+3");
+    expect(csvText('@SUM(A1:A9)', ',')).toBe("'@SUM(A1:A9)");
+    expect(csvText('\t=1', ',')).toBe("'\t=1");
+    expect(csvText('=HYPERLINK("http://x","y")', ',')).toBe(`"'=HYPERLINK(""http://x"",""y"")"`);
+    expect(csvText('Al Noor = Trading', ',')).toBe('Al Noor = Trading');
+  });
+});
+
+describe('toCSV', () => {
+  it('escapes formulas in text columns and leaves negative amounts as numbers', () => {
+    const csv = toCSV([record({ sellerName: '=cmd|calc', notes: '@note', totalAmount: '-115.00', vatAmount: '-15.00' })], { includeHeaders: false });
+    const fields = csv.replace('\uFEFF', '').trimEnd().split(',');
+    expect(fields[2]).toBe("'=cmd|calc");
+    expect(fields[9]).toBe('-15.00');
+    expect(fields[10]).toBe('-115.00');
+    expect(fields[14]).toBe("'@note");
+  });
+});
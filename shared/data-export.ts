@@ -0,0 +1,181 @@
+import type { JournalProfile, ScannedQR, ScanSession } from "./schema";
+import type { ExportTemplateSettings } from "./export-templates";
+import { getInvoiceNumberSource } from "./invoice-number";
+import { KSA_UTC_OFFSET, toInvoiceTimestampText } from "./invoice-date";
+
+// Plain-data exports for import scripts. Unlike the Excel report they have
+// no branding rows: one header line (CSV only) and one line per record, with
+// the columns below in this order. Add new columns at the end only.
+
+export const EXPORT_FORMATS = ['xlsx', 'pdf', 'csv', 'jsonl', 'journal-csv', 'journal-json'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  xlsx: 'Excel report (.xlsx)',
+  pdf: 'PDF report for sign-off (.pdf)',
+  csv: 'CSV (.csv)',
+  jsonl: 'JSON Lines (.jsonl)',
+  'journal-csv': 'Journal entries (.csv)',
+  'journal-json': 'Journal entries, double-entry (.json)',
+};
+
+// Purchase journal entries of the valid records, see journal-entries.ts
+export const JOURNAL_FORMATS: ExportFormat[] = ['journal-csv', 'journal-json'];
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  xlsx: 'xlsx',
+  pdf: 'pdf',
+  csv: 'csv',
+  jsonl: 'jsonl',
+  'journal-csv': 'csv',
+  'journal-json': 'json',
+};
+
+export const EXPORT_RANGES = ['all', 'selected', 'valid'] as const;
+
+export type ExportRange = typeof EXPORT_RANGES[number];
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+export type CsvDelimiter = typeof CSV_DELIMITERS[number];
+
+export const CSV_DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+};
+
+// What a download is generated from, whatever its format
+export interface ExportOptions {
+  filename: string;
+  includeHeaders: boolean;
+  exportRange: ExportRange;
+  selectedIds?: number[];
+  session?: ScanSession;
+  // CSV and journal CSV only
+  delimiter?: CsvDelimiter;
+  // Excel and PDF only; the standard report without one
+  template?: ExportTemplateSettings;
+  // Journal entries only
+  journalProfile?: JournalProfile;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  'journal-csv': 'text/csv; charset=utf-8',
+  'journal-json': 'application/json; charset=utf-8',
+};
+
+// The name a download is saved under; the extension is added unless the
+// user already typed it
+export function exportFilename(filename: string | undefined, format: ExportFormat): string {
+  const name = filename?.trim() || `zatca_qr_export_${new Date().toISOString().split('T')[0]}`;
+  const extension = EXPORT_EXTENSIONS[format];
+  return name.endsWith(`.${extension}`) ? name : `${name}.${extension}`;
+}
+
+export const EXPORT_COLUMNS = [
+  'id',
+  'status',
+  'seller_name',
+  'vat_number',
+  'vat_number_error',
+  'invoice_number',
+  'invoice_number_source',
+  'invoice_date',
+  'subtotal',
+  'vat_amount',
+  'total_amount',
+  'zero_rated',
+  'manual_entry',
+  'signature_status',
+  'notes',
+  'scanned_at',
+] as const;
+
+export type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+export type ExportRow = Record<ExportColumn, string | number | boolean | null>;
+
+const amount = (value: string | null) => (value ? Number(parseFloat(value).toFixed(2)) : null);
+
+// The records an export covers; 'selected' keeps the order of the session
+export function selectExportRecords(qrCodes: ScannedQR[], exportRange: ExportRange, selectedIds: number[] = []): ScannedQR[] {
+  switch (exportRange) {
+    case 'selected':
+      return qrCodes.filter(qr => selectedIds.includes(qr.id));
+    case 'valid':
+      return qrCodes.filter(qr => qr.status === 'valid');
+    default:
+      return qrCodes;
+  }
+}
+
+// Invoice dates are written in the invoice's own time zone, always with the
+// offset; amounts are numbers rounded to halalas
+export function toExportRow(qr: ScannedQR): ExportRow {
+  return {
+    id: qr.id,
+    status: qr.status,
+    seller_name: qr.sellerName,
+    vat_number: qr.vatNumber,
+    vat_number_error: qr.vatNumberError,
+    invoice_number: qr.invoiceNumber,
+    invoice_number_source: getInvoiceNumberSource(qr),
+    invoice_date: toInvoiceTimestampText(qr.invoiceDate, qr.invoiceTimezone ?? KSA_UTC_OFFSET),
+    subtotal: amount(qr.subtotal),
+    vat_amount: amount(qr.vatAmount),
+    total_amount: amount(qr.totalAmount),
+    zero_rated: qr.zeroRated ?? false,
+    manual_entry: qr.isManualEntry ?? false,
+    signature_status: qr.signatureStatus,
+    notes: qr.notes,
+    scanned_at: new Date(qr.scannedAt).toISOString(),
+  };
+}
+
+const AMOUNT_COLUMNS: ExportColumn[] = ['subtotal', 'vat_amount', 'total_amount'];
+
+// Text a spreadsheet would run as a formula, such as a seller name or note
+// starting with "=HYPERLINK(...)"
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Quotes a field when it holds the delimiter, a quote, a line break or
+// leading or trailing spaces. Text that starts like a formula gets a leading
+// apostrophe so spreadsheets show it as text.
+export function csvText(text: string, delimiter: CsvDelimiter): string {
+  const safe = FORMULA_START.test(text) ? `'${text}` : text;
+  return safe.includes(delimiter) || /["\r\n]/.test(safe) || safe !== safe.trim()
+    ? `"${safe.replace(/"/g, '""')}"`
+    : safe;
+}
+
+// Numbers and flags are written as they are, so negative amounts stay numbers
+function csvField(column: ExportColumn, value: ExportRow[ExportColumn], delimiter: CsvDelimiter): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return AMOUNT_COLUMNS.includes(column) ? value.toFixed(2) : String(value);
+  if (typeof value === 'boolean') return String(value);
+  return csvText(value, delimiter);
+}
+
+// UTF-8 with a byte order mark so Excel shows Arabic seller names correctly;
+// lines end in CRLF as RFC 4180 asks
+export function toCSV(qrCodes: ScannedQR[], options: { delimiter?: CsvDelimiter; includeHeaders?: boolean } = {}): string {
+  const { delimiter = ',', includeHeaders = true } = options;
+  const lines = qrCodes.map(qr => {
+    const row = toExportRow(qr);
+    return EXPORT_COLUMNS.map(column => csvField(column, row[column], delimiter)).join(delimiter);
+  });
+  if (includeHeaders) lines.unshift(EXPORT_COLUMNS.join(delimiter));
+  return `\uFEFF${lines.map(line => `${line}\r\n`).join('')}`;
+}
+
+// One JSON object per line, keys in column order
+export function toJSONLines(qrCodes: ScannedQR[]): string {
+  return qrCodes.map(qr => `${JSON.stringify(toExportRow(qr))}\n`).join('');
+}
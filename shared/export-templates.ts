@@ -0,0 +1,145 @@
+// Saved layouts for the Excel and PDF reports: which fields, in which order,
+// under which headers. CSV and JSON Lines keep their fixed columns so import
+// scripts can rely on them.
+
+export const TEMPLATE_FIELDS = [
+  'row',
+  'status',
+  'seller_name',
+  'vat_number',
+  'invoice_number',
+  'invoice_number_source',
+  'invoice_date',
+  'time_zone',
+  'subtotal',
+  'vat_amount',
+  'total_amount',
+  'zero_rated',
+  'notes',
+] as const;
+
+export type TemplateField = typeof TEMPLATE_FIELDS[number];
+
+export const TEMPLATE_FIELD_LABELS: Record<TemplateField, { en: string; ar: string }> = {
+  row: { en: 'Row', ar: 'م' },
+  status: { en: 'Status', ar: 'الحالة' },
+  seller_name: { en: 'Seller Name', ar: 'اسم البائع' },
+  vat_number: { en: 'VAT Number', ar: 'الرقم الضريبي' },
+  invoice_number: { en: 'Invoice Number', ar: 'رقم الفاتورة' },
+  invoice_number_source: { en: 'Invoice No. Source', ar: 'مصدر رقم الفاتورة' },
+  invoice_date: { en: 'Invoice Date', ar: 'تاريخ الفاتورة' },
+  time_zone: { en: 'Time Zone', ar: 'المنطقة الزمنية' },
+  subtotal: { en: 'Subtotal (SAR)', ar: 'المبلغ قبل الضريبة (ريال)' },
+  vat_amount: { en: 'VAT Amount (SAR)', ar: 'مبلغ الضريبة (ريال)' },
+  total_amount: { en: 'Total Amount (SAR)', ar: 'الإجمالي (ريال)' },
+  zero_rated: { en: 'Zero-Rated', ar: 'نسبة صفرية' },
+  notes: { en: 'Notes', ar: 'ملاحظات' },
+};
+
+// Written with the template's number format
+export const AMOUNT_FIELDS: TemplateField[] = ['subtotal', 'vat_amount', 'total_amount'];
+
+export const HEADER_LANGUAGES = ['en', 'ar', 'both'] as const;
+
+export type HeaderLanguage = typeof HEADER_LANGUAGES[number];
+
+export const HEADER_LANGUAGE_LABELS: Record<HeaderLanguage, string> = {
+  en: 'English',
+  ar: 'Arabic',
+  both: 'English and Arabic',
+};
+
+// Excel number formats; the PDF writes the amounts the same way
+export const NUMBER_FORMATS = ['0.00', '#,##0.00', '0.000', '#,##0'] as const;
+
+export type NumberFormat = typeof NUMBER_FORMATS[number];
+
+export const NUMBER_FORMAT_LABELS: Record<NumberFormat, string> = {
+  '0.00': '1234.50',
+  '#,##0.00': '1,234.50',
+  '0.000': '1234.500',
+  '#,##0': '1,235',
+};
+
+export function formatTemplateNumber(value: number, format: NumberFormat): string {
+  const decimals = format.split('.')[1]?.length ?? 0;
+  return format.startsWith('#,##')
+    ? value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+    : value.toFixed(decimals);
+}
+
+export const BRANDING_FIELDS = [
+  'title',
+  'subtitle',
+  'tagline',
+  'generatedBy',
+  'website',
+  'description',
+  'version',
+  'footer',
+  'support',
+] as const;
+
+export type BrandingField = typeof BRANDING_FIELDS[number];
+
+export type ReportBranding = Record<BrandingField, string>;
+
+export const BRANDING_FIELD_LABELS: Record<BrandingField, string> = {
+  title: 'Title',
+  subtitle: 'Subtitle',
+  tagline: 'Tagline',
+  generatedBy: 'Generated by',
+  website: 'Website',
+  description: 'Description',
+  version: 'Version',
+  footer: 'Footer',
+  support: 'Support line',
+};
+
+// The text of the standard report. Lines a template leaves blank are not printed.
+export const DEFAULT_BRANDING: ReportBranding = {
+  title: 'ZatScan - ZATCA QR Code Scanner',
+  subtitle: 'Saudi Arabia Invoice QR Code Analysis Report',
+  tagline: 'Professional ZATCA QR Code Analysis System',
+  generatedBy: 'Generated by ZatScan™',
+  website: 'Website: www.zatscan.com',
+  description: 'Professional Invoice Analysis & Compliance',
+  version: 'Version: 1.0',
+  footer: 'Report generated by ZatScan',
+  support: 'For support, visit: www.zatscan.com/contact',
+};
+
+// A blank label falls back to the field's default one
+export interface TemplateColumn {
+  field: TemplateField;
+  labelEn: string;
+  labelAr: string;
+}
+
+export interface ExportTemplateSettings {
+  columns: TemplateColumn[];
+  headerLanguage: HeaderLanguage;
+  numberFormat: NumberFormat;
+  showLogo: boolean;
+  showSummary: boolean;
+  branding: ReportBranding;
+}
+
+// The standard report, used when no template is picked
+export const DEFAULT_TEMPLATE_SETTINGS: ExportTemplateSettings = {
+  columns: TEMPLATE_FIELDS
+    .filter(field => field !== 'zero_rated' && field !== 'notes')
+    .map(field => ({ field, labelEn: '', labelAr: '' })),
+  headerLanguage: 'en',
+  numberFormat: '0.00',
+  showLogo: true,
+  showSummary: true,
+  branding: DEFAULT_BRANDING,
+};
+
+// The header of a column, one line per language
+export function templateColumnHeader(column: TemplateColumn, language: HeaderLanguage): string[] {
+  const en = column.labelEn || TEMPLATE_FIELD_LABELS[column.field].en;
+  const ar = column.labelAr || TEMPLATE_FIELD_LABELS[column.field].ar;
+  return language === 'both' ? [en, ar] : [language === 'ar' ? ar : en];
+}
@@ -0,0 +1,68 @@
+// Tag 3 carries an ISO-8601 date-time. The instant is stored as a timestamp
+// and the original UTC offset is kept alongside it, so the invoice can be
+// shown in the seller's local time. Timestamps without an offset are read as
+// Saudi local time (UTC+03:00, no daylight saving).
+
+export const KSA_UTC_OFFSET = '+03:00';
+
+const ISO_TIMESTAMP = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?))?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+export interface InvoiceTimestamp {
+  date: Date;
+  // Offset as written on the invoice ('Z', '+03:00', ...), null when absent
+  timezone: string | null;
+}
+
+function normalizeOffset(offset: string): string {
+  if (offset.toUpperCase() === 'Z') return 'Z';
+  return offset.includes(':') ? offset : `${offset.slice(0, 3)}:${offset.slice(3)}`;
+}
+
+function offsetMinutes(timezone: string | null): number {
+  const offset = timezone ?? KSA_UTC_OFFSET;
+  if (offset === 'Z') return 0;
+  const sign = offset.startsWith('-') ? -1 : 1;
+  const [hours, minutes] = offset.slice(1).split(':').map(Number);
+  return sign * (hours * 60 + minutes);
+}
+
+export function parseInvoiceTimestamp(value: string): InvoiceTimestamp | null {
+  const match = ISO_TIMESTAMP.exec(value.trim());
+  if (!match) return null;
+
+  const [, day, time = '00:00:00', offset] = match;
+  const timezone = offset ? normalizeOffset(offset) : null;
+  const date = new Date(`${day}T${time}${timezone ?? KSA_UTC_OFFSET}`);
+
+  return isNaN(date.getTime()) ? null : { date, timezone };
+}
+
+// Shifts the instant so that its UTC fields read as the invoice's local
+// wall-clock time. Used for display and for Excel, which has no time zones.
+export function toInvoiceWallClock(date: Date | string, timezone: string | null): Date {
+  return new Date(new Date(date).getTime() + offsetMinutes(timezone) * 60_000);
+}
+
+export function formatInvoiceTimezone(timezone: string | null): string {
+  return timezone === 'Z' ? 'UTC' : timezone ?? KSA_UTC_OFFSET;
+}
+
+export function formatInvoiceTimestamp(date: Date | string | null, timezone: string | null): string {
+  if (!date) return '-';
+  const local = toInvoiceWallClock(date, timezone).toISOString();
+  return `${local.slice(0, 10)} ${local.slice(11, 19)} ${formatInvoiceTimezone(timezone)}`;
+}
+
+// Calendar day of the invoice in its own time zone (YYYY-MM-DD)
+export function getInvoiceDay(date: Date | string | null, timezone: string | null): string | null {
+  if (!date) return null;
+  return toInvoiceWallClock(date, timezone).toISOString().slice(0, 10);
+}
+
+// ISO-8601 text in the invoice's own time zone, as accepted by
+// parseInvoiceTimestamp. Used to edit a timestamp and in change history.
+export function toInvoiceTimestampText(date: Date | string | null, timezone: string | null): string | null {
+  if (!date) return null;
+  const local = toInvoiceWallClock(date, timezone).toISOString().slice(0, 19);
+  return timezone ? `${local}${timezone}` : local;
+}
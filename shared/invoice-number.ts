@@ -0,0 +1,17 @@
+// The simplified ZATCA QR format has no invoice-number tag, so scanned
+// records start out 'missing' until someone types the number in.
+export type InvoiceNumberSource = 'extracted' | 'manual' | 'missing';
+
+export const INVOICE_NUMBER_SOURCE_LABELS: Record<InvoiceNumberSource, string> = {
+  extracted: 'Extracted',
+  manual: 'Entered by user',
+  missing: 'Missing',
+};
+
+export function getInvoiceNumberSource(qr: {
+  invoiceNumber: string | null;
+  invoiceNumberSource: string | null;
+}): InvoiceNumberSource {
+  if (!qr.invoiceNumber) return 'missing';
+  return qr.invoiceNumberSource === 'extracted' ? 'extracted' : 'manual';
+}
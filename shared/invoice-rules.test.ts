@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { checkInvoiceAmounts, checkRecordAmounts } from './invoice-rules';
+
+describe('checkInvoiceAmounts', () => {
+  it('accepts a standard-rated invoice that adds up', () => {
+    expect(checkInvoiceAmounts({ subtotal: 100, vatAmount: 15, totalAmount: 115 })).toEqual([]);
+  });
+
+  it('allows rounding differences up to the tolerance', () => {
+    expect(checkInvoiceAmounts({ subtotal: 33.33, vatAmount: 5, totalAmount: 38.35 })).toEqual([]);
+    expect(checkInvoiceAmounts({ subtotal: 100, vatAmount: 15, totalAmount: 115.06 })).toEqual(['total_mismatch']);
+  });
+
+  it('flags VAT that is not 15% of the net amount', () => {
+    expect(checkInvoiceAmounts({ subtotal: 100, vatAmount: 5, totalAmount: 105 })).toEqual(['vat_rate_mismatch']);
+  });
+
+  it('works out the net amount from the total when there is no subtotal', () => {
+    expect(checkInvoiceAmounts({ vatAmount: 15, totalAmount: 115 })).toEqual([]);
+    expect(checkInvoiceAmounts({ vatAmount: 10, totalAmount: 115 })).toEqual(['vat_rate_mismatch']);
+  });
+
+  it('expects no VAT on zero-rated invoices', () => {
+    expect(checkInvoiceAmounts({ subtotal: 100, vatAmount: 0, totalAmount: 100 }, { zeroRated: true })).toEqual([]);
+    expect(checkInvoiceAmounts({ subtotal: 100, vatAmount: 15, totalAmount: 115 }, { zeroRated: true })).toEqual(['vat_rate_mismatch']);
+  });
+
+  it('flags negative amounts', () => {
+    expect(checkInvoiceAmounts({ subtotal: -100, vatAmount: -15, totalAmount: -115 })).toEqual(['negative_amount']);
+  });
+
+  it('reports every rule that fails', () => {
+    expect(checkInvoiceAmounts({ subtotal: 100, vatAmount: 20, totalAmount: 110 })).toEqual(['total_mismatch', 'vat_rate_mismatch']);
+  });
+
+  it('skips the checks whose amounts are missing', () => {
+    expect(checkInvoiceAmounts({ totalAmount: 115 })).toEqual([]);
+    expect(checkInvoiceAmounts({ subtotal: NaN, vatAmount: 15, totalAmount: null })).toEqual([]);
+  });
+
+  it('uses the configured rate and tolerance', () => {
+    expect(checkInvoiceAmounts({ subtotal: 100, vatAmount: 5, totalAmount: 105 }, { vatRate: 0.05 })).toEqual([]);
+    expect(checkInvoiceAmounts({ subtotal: 100, vatAmount: 15.5, totalAmount: 115.5 }, { tolerance: 1 })).toEqual([]);
+  });
+});
+
+describe('checkRecordAmounts', () => {
+  it('parses the decimal strings of a stored record', () => {
+    expect(checkRecordAmounts({ subtotal: '100.00', vatAmount: '15.00', totalAmount: '115.00' })).toEqual([]);
+    expect(checkRecordAmounts({ subtotal: '100.00', vatAmount: '15.00', totalAmount: '120.00' })).toEqual(['total_mismatch']);
+    expect(checkRecordAmounts({ subtotal: null, vatAmount: '', totalAmount: '115.00' })).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+// Arithmetic consistency checks on invoice amounts. Flags are warnings that
+// are stored with the record; they do not make a QR code invalid.
+
+export const AMOUNT_FLAGS = [
+  'negative_amount',
+  'vat_rate_mismatch',
+  'total_mismatch',
+] as const;
+
+export type AmountFlag = typeof AMOUNT_FLAGS[number];
+
+export const AMOUNT_FLAG_MESSAGES: Record<AmountFlag, string> = {
+  negative_amount: 'One or more amounts are negative',
+  vat_rate_mismatch: 'VAT does not match the expected rate on the net amount',
+  total_mismatch: 'Subtotal plus VAT does not add up to the total',
+};
+
+export interface AmountRuleOptions {
+  // Standard Saudi VAT rate
+  vatRate: number;
+  // Allowed rounding difference in SAR
+  tolerance: number;
+  // Zero-rated and exempt supplies carry no VAT
+  zeroRated: boolean;
+}
+
+export const DEFAULT_AMOUNT_RULES: AmountRuleOptions = {
+  vatRate: 0.15,
+  tolerance: 0.05,
+  zeroRated: false,
+};
+
+export interface InvoiceAmounts {
+  subtotal?: number | null;
+  vatAmount?: number | null;
+  totalAmount?: number | null;
+}
+
+function isNumber(value: number | null | undefined): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
+
+export function checkInvoiceAmounts(
+  amounts: InvoiceAmounts,
+  options: Partial<AmountRuleOptions> = {},
+): AmountFlag[] {
+  const rules = { ...DEFAULT_AMOUNT_RULES, ...options };
+  const { subtotal, vatAmount, totalAmount } = amounts;
+  const flags: AmountFlag[] = [];
+
+  if ([subtotal, vatAmount, totalAmount].some(value => isNumber(value) && value < 0)) {
+    flags.push('negative_amount');
+  }
+
+  if (isNumber(subtotal) && isNumber(vatAmount) && isNumber(totalAmount)) {
+    if (Math.abs(subtotal + vatAmount - totalAmount) > rules.tolerance) {
+      flags.push('total_mismatch');
+    }
+  }
+
+  // Fall back to total - VAT when the net amount is not given separately
+  const net = isNumber(subtotal) ? subtotal : isNumber(totalAmount) && isNumber(vatAmount) ? totalAmount - vatAmount : null;
+  if (net !== null && isNumber(vatAmount)) {
+    const expectedVat = rules.zeroRated ? 0 : net * rules.vatRate;
+    if (Math.abs(vatAmount - expectedVat) > rules.tolerance) {
+      flags.push('vat_rate_mismatch');
+    }
+  }
+
+  return flags;
+}
+
+// Parses the decimal strings used on scanned records
+export function checkRecordAmounts(
+  record: { subtotal?: string | null; vatAmount?: string | null; totalAmount?: string | null },
+  options: Partial<AmountRuleOptions> = {},
+): AmountFlag[] {
+  const toNumber = (value?: string | null) => (value ? parseFloat(value) : null);
+  return checkInvoiceAmounts({
+    subtotal: toNumber(record.subtotal),
+    vatAmount: toNumber(record.vatAmount),
+    totalAmount: toNumber(record.totalAmount),
+  }, options);
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { ScannedQR } from './schema';
+import { buildJournalEntries, toJournalCSV, toJournalJSON, type JournalEntry, type JournalProfileSettings } from './journal-entries';
+
+const settings: JournalProfileSettings = {
+  accounts: { expense: '5100', inputVat: '1410', payable: '2100' },
+  sellers: [{ vatNumber: '300000000000003', expense: '5200', inputVat: '', payable: '2110' }],
+};
+
+let nextId = 1;
+const record = (fields: Partial<ScannedQR>) => ({
+  id: nextId++,
+  status: 'valid',
+  sellerName: 'Seller',
+  vatNumber: '311111111111113',
+  invoiceNumber: 'INV-1',
+  invoiceDate: new Date('2024-05-01T07:15:00Z'),
+  invoiceTimezone: '+03:00',
+  totalAmount: '115.00',
+  vatAmount: '15.00',
+  subtotal: '100.00',
+  ...fields,
+}) as ScannedQR;
+
+const totals = (entry: JournalEntry) => ({
+  debit: entry.lines.reduce((sum, line) => sum + Math.round(line.debit * 100), 0),
+  credit: entry.lines.reduce((sum, line) => sum + Math.round(line.credit * 100), 0),
+});
+
+describe('buildJournalEntries', () => {
+  it('debits the expense and input VAT and credits the payable with the total', () => {
+    const [entry] = buildJournalEntries([record({})], settings);
+    expect(entry.lines).toEqual([
+      { account: 'expense', accountCode: '5100', debit: 100, credit: 0 },
+      { account: 'inputVat', accountCode: '1410', debit: 15, credit: 0 },
+      { account: 'payable', accountCode: '2100', debit: 0, credit: 115 },
+    ]);
+    expect(entry.date).toBe('2024-05-01');
+  });
+
+  it('balances to the halala when the subtotal on the invoice is rounded differently', () => {
+    const entries = buildJournalEntries([
+      record({ totalAmount: '38.35', vatAmount: '5.00', subtotal: '33.33' }),
+      record({ totalAmount: '0.10', vatAmount: '0.01', subtotal: '0.08' }),
+      record({ totalAmount: '1234567.89', vatAmount: '161030.59', subtotal: '1073537.31' }),
+    ], settings);
+    entries.forEach(entry => {
+      const { debit, credit } = totals(entry);
+      expect(debit).toBe(credit);
+    });
+    expect(entries[0].lines[0].debit).toBe(33.35);
+  });
+
+  it('uses the seller accounts, falling back to the defaults for blank codes', () => {
+    const [entry] = buildJournalEntries([record({ vatNumber: '300000000000003' })], settings);
+    expect(entry.lines.map(line => line.accountCode)).toEqual(['5200', '1410', '2110']);
+  });
+
+  it('leaves out invalid scans, scans without a total and empty lines', () => {
+    const entries = buildJournalEntries([
+      record({ status: 'invalid' }),
+      record({ totalAmount: null }),
+      record({ totalAmount: '100.00', vatAmount: '0.00', subtotal: '100.00' }),
+    ], settings);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entryNumber).toBe(1);
+    expect(entries[0].lines.map(line => line.account)).toEqual(['expense', 'payable']);
+  });
+
+  it('leaves out scans with a failed signature or an invalid VAT number', () => {
+    const entries = buildJournalEntries([
+      record({ signatureStatus: 'failed' }),
+      record({ vatNumberError: 'invalid_suffix' }),
+      record({ signatureStatus: 'verified' }),
+      record({ signatureStatus: 'unsigned', vatNumberError: null }),
+    ], settings);
+    expect(entries.map(entry => entry.entryNumber)).toEqual([1, 2]);
+  });
+});
+
+describe('journal exports', () => {
+  const entries = buildJournalEntries([
+    record({ totalAmount: '38.35', vatAmount: '5.00' }),
+    record({ totalAmount: '115.00', vatAmount: '15.00', sellerName: 'Al "Noor", Ltd' }),
+  ], settings);
+
+  it('writes one CSV row per line with equal debit and credit columns', () => {
+    expect(toJournalCSV(entries)).toContain('"Al ""Noor"", Ltd"');
+
+    // None of the fields hold a semicolon, so the rows split on it
+    const rows = toJournalCSV(entries, { delimiter: ';' }).replace('\uFEFF', '').trimEnd().split('\r\n').slice(1);
+    expect(rows).toHaveLength(6);
+    const sum = (column: number) => rows.reduce((total, row) => total + Math.round(parseFloat(row.split(';')[column] || '0') * 100), 0);
+    expect(sum(6)).toBe(15335);
+    expect(sum(7)).toBe(15335);
+  });
+
+  it('writes a seller name that starts like a formula as text', () => {
+    const csv = toJournalCSV(buildJournalEntries([record({ sellerName: '=HYPERLINK("http://x")', invoiceNumber: '@SUM(A1)' })], settings));
+    expect(csv).toContain(`"'=HYPERLINK(""http://x"")"`);
+    expect(csv).toContain(`'@SUM(A1)`);
+    expect(csv).not.toMatch(/(^|,)[=@]/m);
+  });
+
+  it('carries equal debit and credit totals in the JSON document', () => {
+    const document = JSON.parse(toJournalJSON(entries, { profile: 'Purchases' }));
+    expect(document.totalDebit).toBe(153.35);
+    expect(document.totalCredit).toBe(153.35);
+    document.entries.forEach((entry: { totalDebit: number; totalCredit: number }) => {
+      expect(entry.totalDebit).toBe(entry.totalCredit);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import type { ScannedQR, ScanSession } from "./schema";
+import { csvText, type CsvDelimiter } from "./data-export";
+import { getInvoiceDay } from "./invoice-date";
+
+// Purchase journal entries for accounting-system imports. Each valid scan
+// becomes one balanced entry: the expense and input VAT are debited and the
+// supplier's payable is credited with the invoice total.
+
+export const JOURNAL_ACCOUNTS = ['expense', 'inputVat', 'payable'] as const;
+
+export type JournalAccount = typeof JOURNAL_ACCOUNTS[number];
+
+export const JOURNAL_ACCOUNT_LABELS: Record<JournalAccount, string> = {
+  expense: 'Expense',
+  inputVat: 'Input VAT',
+  payable: 'Accounts payable',
+};
+
+export type JournalAccountCodes = Record<JournalAccount, string>;
+
+// GL codes for one supplier; a blank code uses the profile's default
+export interface SellerAccountCodes extends JournalAccountCodes {
+  vatNumber: string;
+}
+
+export interface JournalProfileSettings {
+  accounts: JournalAccountCodes;
+  sellers: SellerAccountCodes[];
+}
+
+export const DEFAULT_JOURNAL_SETTINGS: JournalProfileSettings = {
+  accounts: { expense: '', inputVat: '', payable: '' },
+  sellers: [],
+};
+
+export interface JournalLine {
+  account: JournalAccount;
+  accountCode: string;
+  debit: number;
+  credit: number;
+}
+
+export interface JournalEntry {
+  entryNumber: number;
+  recordId: number;
+  date: string | null;
+  reference: string | null;
+  description: string;
+  sellerName: string | null;
+  vatNumber: string | null;
+  lines: JournalLine[];
+}
+
+// The codes a seller's invoices are posted to
+export function journalAccountCodes(settings: JournalProfileSettings, vatNumber: string | null): JournalAccountCodes {
+  const seller = settings.sellers.find(s => s.vatNumber === vatNumber?.trim());
+  const codes = { ...settings.accounts };
+  JOURNAL_ACCOUNTS.forEach(account => {
+    if (seller?.[account]) codes[account] = seller[account];
+  });
+  return codes;
+}
+
+// Amounts are added up in halalas so every entry balances to the halala
+const halalas = (value: string | null) => (value ? Math.round(parseFloat(value) * 100) : 0);
+
+// Input VAT is only claimed on invoices that check out: a failed signature or
+// an invalid VAT number keeps a record out of the journal until it is fixed
+export function isHeldFromJournal(qr: Pick<ScannedQR, 'signatureStatus' | 'vatNumberError'>): boolean {
+  return qr.signatureStatus === 'failed' || !!qr.vatNumberError;
+}
+
+/**
+ * One entry per valid scan with a total, unless it is held from the journal.
+ * The expense is the total less the VAT rather than the subtotal, so rounding
+ * on the invoice cannot unbalance the entry; lines without an amount, such as
+ * the VAT of a zero-rated invoice, are left out.
+ */
+export function buildJournalEntries(records: ScannedQR[], settings: JournalProfileSettings): JournalEntry[] {
+  return records
+    .filter(qr => qr.status === 'valid' && halalas(qr.totalAmount) > 0 && !isHeldFromJournal(qr))
+    .map((qr, index) => {
+      const codes = journalAccountCodes(settings, qr.vatNumber);
+      const total = halalas(qr.totalAmount);
+      const vat = halalas(qr.vatAmount);
+      const lines: JournalLine[] = [
+        { account: 'expense', accountCode: codes.expense, debit: (total - vat) / 100, credit: 0 },
+        { account: 'inputVat', accountCode: codes.inputVat, debit: vat / 100, credit: 0 },
+        { account: 'payable', accountCode: codes.payable, debit: 0, credit: total / 100 },
+      ];
+      return {
+        entryNumber: index + 1,
+        recordId: qr.id,
+        date: getInvoiceDay(qr.invoiceDate, qr.invoiceTimezone),
+        reference: qr.invoiceNumber,
+        description: `Purchase invoice ${qr.invoiceNumber || 'without number'} from ${qr.sellerName || 'unknown seller'}`,
+        sellerName: qr.sellerName,
+        vatNumber: qr.vatNumber,
+        lines: lines.filter(line => line.debit !== 0 || line.credit !== 0),
+      };
+    });
+}
+
+export const JOURNAL_CSV_COLUMNS = [
+  'entry_number',
+  'date',
+  'reference',
+  'description',
+  'account_code',
+  'account',
+  'debit',
+  'credit',
+  'seller_name',
+  'vat_number',
+  'record_id',
+] as const;
+
+// One row per journal line, the lines of an entry next to each other. Like
+// the plain CSV export it is UTF-8 with a byte order mark and CRLF lines.
+export function toJournalCSV(entries: JournalEntry[], options: { delimiter?: CsvDelimiter; includeHeaders?: boolean } = {}): string {
+  const { delimiter = ',', includeHeaders = true } = options;
+  const lines = entries.flatMap(entry => entry.lines.map(line => [
+    String(entry.entryNumber),
+    entry.date ?? '',
+    entry.reference ?? '',
+    entry.description,
+    line.accountCode,
+    JOURNAL_ACCOUNT_LABELS[line.account],
+    line.debit ? line.debit.toFixed(2) : '',
+    line.credit ? line.credit.toFixed(2) : '',
+    entry.sellerName ?? '',
+    entry.vatNumber ?? '',
+    String(entry.recordId),
+  ].map(field => csvText(field, delimiter)).join(delimiter)));
+  if (includeHeaders) lines.unshift(JOURNAL_CSV_COLUMNS.join(delimiter));
+  return `\uFEFF${lines.map(line => `${line}\r\n`).join('')}`;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + Math.round(value * 100), 0) / 100;
+
+// The entries as one double-entry document; every entry and the document
+// as a whole carry their debit and credit totals, which are equal
+export function toJournalJSON(entries: JournalEntry[], context: { profile: string; session?: ScanSession }): string {
+  const document = {
+    type: 'purchase_journal',
+    currency: 'SAR',
+    profile: context.profile,
+    session: context.session ? { sessionId: context.session.sessionId, name: context.session.name } : null,
+    generatedAt: new Date().toISOString(),
+    entries: entries.map(entry => ({
+      entryNumber: entry.entryNumber,
+      date: entry.date,
+      reference: entry.reference,
+      description: entry.description,
+      recordId: entry.recordId,
+      seller: { name: entry.sellerName, vatNumber: entry.vatNumber },
+      lines: entry.lines,
+      totalDebit: sum(entry.lines.map(line => line.debit)),
+      totalCredit: sum(entry.lines.map(line => line.credit)),
+    })),
+    totalDebit: sum(entries.flatMap(entry => entry.lines.map(line => line.debit))),
+    totalCredit: sum(entries.flatMap(entry => entry.lines.map(line => line.credit))),
+  };
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
@@ -0,0 +1,34 @@
+// Members of an organization work in one of these roles. Each role can do
+// everything the one before it can; reading sessions needs no permission.
+export const ROLES = ['scanner', 'reviewer', 'accountant', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  scanner: 'Scanner',
+  reviewer: 'Reviewer',
+  accountant: 'Accountant',
+  admin: 'Admin',
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  scanner: 'Adds scans',
+  reviewer: 'Adds scans, edits, deletes and organizes records',
+  accountant: 'Also exports and locks sessions',
+  admin: 'Also manages the organization and its members',
+};
+
+export const PERMISSIONS = ['scan', 'edit', 'export', 'lock', 'manage'] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  scanner: ['scan'],
+  reviewer: ['scan', 'edit'],
+  accountant: ['scan', 'edit', 'export', 'lock'],
+  admin: ['scan', 'edit', 'export', 'lock', 'manage'],
+};
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role as Role]?.includes(permission) ?? false;
+}
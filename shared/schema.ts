@@ -1,41 +1,519 @@
-import { pgTable, text, serial, timestamp, decimal, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, decimal, boolean, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { TLV_DIAGNOSTIC_CODES, type TLVDiagnostic } from "./tlv";
+import { VAT_NUMBER_ERRORS } from "./vat-number";
+import { AMOUNT_FLAGS, type AmountFlag } from "./invoice-rules";
+import { SESSION_STATUSES } from "./session-status";
+import { AUDIT_ACTIONS, type AuditAction } from "./audit-log";
+import { ROLES } from "./roles";
+import { API_KEY_SCOPES, type ApiKeyScope } from "./api-keys";
+import { CSV_DELIMITERS, EXPORT_FORMATS, EXPORT_RANGES, JOURNAL_FORMATS } from "./data-export";
+import {
+  BRANDING_FIELDS,
+  HEADER_LANGUAGES,
+  NUMBER_FORMATS,
+  TEMPLATE_FIELDS,
+  type BrandingField,
+  type ExportTemplateSettings,
+} from "./export-templates";
+import { JOURNAL_ACCOUNTS, type JournalAccount, type JournalProfileSettings } from "./journal-entries";
+
+// Sessions are shared by every member of the organization they belong to
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt, "salt:hash" in hex
+  organizationId: integer("organization_id"), // organizations.id; null for accounts from before organizations existed
+  role: text("role").notNull().default("scanner"), // Role
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Machine-to-machine access for an organization. Only the SHA-256 hash of a
+// key is stored; revoked keys are kept so their audit entries stay readable.
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // start of the key, to tell keys apart
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<ApiKeyScope[]>().notNull(),
+  createdBy: integer("created_by").notNull(), // users.id of the admin who created it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Report layouts saved by an organization and picked when exporting
+export const exportTemplates = pgTable("export_templates", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  name: text("name").notNull(),
+  settings: jsonb("settings").$type<ExportTemplateSettings>().notNull(),
+  createdBy: integer("created_by"), // users.id of the member who created it; null when an API key did
+  apiKeyId: integer("api_key_id"), // api_keys.id of the key it was created with
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // Templates are picked by name in the export dialog
+  uniqueIndex("export_templates_organization_name_idx").on(table.organizationId, table.name),
+]);
+
+// GL account codes that journal-entry exports post invoices to
+export const journalProfiles = pgTable("journal_profiles", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  name: text("name").notNull(),
+  settings: jsonb("settings").$type<JournalProfileSettings>().notNull(),
+  createdBy: integer("created_by"), // users.id of the member who created it; null when an API key did
+  apiKeyId: integer("api_key_id"), // api_keys.id of the key it was created with
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("journal_profiles_organization_name_idx").on(table.organizationId, table.name),
+]);
 
 export const scanSessions = pgTable("scan_sessions", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull().unique(),
+  ownerId: integer("owner_id"), // users.id of the creator; null for sessions from before accounts existed or created with an API key
+  apiKeyId: integer("api_key_id"), // api_keys.id of the key it was created with
+  organizationId: integer("organization_id"), // organizations.id; null until claimed
+  name: text("name"),
+  client: text("client"),
+  taxPeriod: text("tax_period"), // e.g. '2024-Q2' or '2024-05'
+  costCenter: text("cost_center"),
+  notes: text("notes"),
+  status: text("status").notNull().default("open"), // 'open' | 'locked' | 'archived'
+  statusChangedAt: timestamp("status_changed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Every lock, archive and reopen, so a reopened session can be accounted for
+export const sessionStatusChanges = pgTable("session_status_changes", {
+  id: serial("id").primaryKey(),
+  sessionId: text("session_id").notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  reason: text("reason"),
+  changedBy: integer("changed_by"), // users.id of the member; null for changes from before this was recorded
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+});
+
+// One row per edited field of a scan record
+export const scanRecordChanges = pgTable("scan_record_changes", {
+  id: serial("id").primaryKey(),
+  qrId: integer("qr_id").notNull(),
+  sessionId: text("session_id").notNull(),
+  field: text("field").notNull(),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  changedBy: text("changed_by"),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+});
+
+// Append-only trail of every create, edit, delete, clear and export. Each
+// entry stores the hash of the one before it, so a changed or missing entry
+// breaks the chain.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  sequence: integer("sequence").notNull().unique(),
+  action: text("action").notNull(), // AuditAction
+  sessionId: text("session_id"),
+  qrId: integer("qr_id"),
+  actor: text("actor"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  prevHash: text("prev_hash"), // null for the first entry
+  hash: text("hash").notNull(),
+});
+
 export const scannedQRs = pgTable("scanned_qrs", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull(),
   status: text("status").notNull(), // 'valid' | 'invalid'
   sellerName: text("seller_name"),
   vatNumber: text("vat_number"),
+  vatNumberError: text("vat_number_error"), // VatNumberError, null when the TRN checks out
   invoiceNumber: text("invoice_number"),
-  invoiceDate: text("invoice_date"),
+  invoiceNumberSource: text("invoice_number_source").notNull().default("missing"), // 'extracted' | 'manual' | 'missing'
+  invoiceDate: timestamp("invoice_date", { withTimezone: true }),
+  invoiceTimezone: text("invoice_timezone"), // UTC offset as written on the invoice, e.g. '+03:00'
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }),
   vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }),
+  zeroRated: boolean("zero_rated").default(false),
+  amountFlags: jsonb("amount_flags").$type<AmountFlag[]>(),
   rawData: text("raw_data").notNull(),
   isManualEntry: boolean("is_manual_entry").default(false),
   notes: text("notes"),
+  // ZATCA Phase 2 cryptographic material (tags 6-9)
+  invoiceHash: text("invoice_hash"),
+  signature: text("signature"),
+  publicKey: text("public_key"),
+  stampSignature: text("stamp_signature"),
+  signatureStatus: text("signature_status"), // 'verified' | 'failed' | 'unsigned'
+  parseDiagnostics: jsonb("parse_diagnostics").$type<TLVDiagnostic[]>(),
   scannedAt: timestamp("scanned_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // set while the record is in the session's trash
+}, (table) => [
+  // Duplicate detection: a scanned payload may appear once per session.
+  // Manual entries are exempt, as they are in MemStorage, and so are
+  // records in the trash.
+  uniqueIndex("scanned_qrs_session_raw_data_idx")
+    .on(table.sessionId, table.rawData)
+    .where(sql`${table.isManualEntry} = false and ${table.deletedAt} is null`),
+]);
+
+// Usernames are case-insensitive and stored in lower case
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(3).max(50)
+    .regex(/^[a-zA-Z0-9._@-]+$/, "Use letters, numbers, dots, dashes, underscores or @")
+    .transform(value => value.toLowerCase()),
+  password: z.string().min(8, "Use at least 8 characters").max(200),
+});
+
+// Admins create the accounts of their organization's members
+export const newMemberSchema = credentialsSchema.extend({
+  role: z.enum(ROLES),
+});
+
+export const memberUpdateSchema = z.object({
+  role: z.enum(ROLES),
+});
+
+export const updateOrganizationSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+});
+
+export const newApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Choose at least one scope"),
+});
+
+const templateLabel = z.string().trim().max(100);
+
+export const exportTemplateSettingsSchema = z.object({
+  columns: z.array(z.object({
+    field: z.enum(TEMPLATE_FIELDS),
+    labelEn: templateLabel,
+    labelAr: templateLabel,
+  }))
+    .min(1, "Choose at least one field")
+    .refine(columns => new Set(columns.map(column => column.field)).size === columns.length, "Each field can only be used once"),
+  headerLanguage: z.enum(HEADER_LANGUAGES),
+  numberFormat: z.enum(NUMBER_FORMATS),
+  showLogo: z.boolean(),
+  showSummary: z.boolean(),
+  branding: z.object(
+    Object.fromEntries(BRANDING_FIELDS.map(field => [field, z.string().trim().max(200)])) as Record<BrandingField, z.ZodString>
+  ),
+});
+
+export const newExportTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  settings: exportTemplateSettingsSchema,
 });
 
+export const updateExportTemplateSchema = newExportTemplateSchema.partial();
+
+const accountCode = z.string().trim().max(50);
+
+export const journalProfileSettingsSchema = z.object({
+  accounts: z.object(
+    Object.fromEntries(JOURNAL_ACCOUNTS.map(account => [account, accountCode.min(1, "Enter an account code")])) as Record<JournalAccount, z.ZodString>
+  ),
+  // Blank codes fall back to the accounts above
+  sellers: z.array(z.object({
+    vatNumber: z.string().trim().min(1, "Enter the seller's VAT number").max(20),
+    ...(Object.fromEntries(JOURNAL_ACCOUNTS.map(account => [account, accountCode])) as Record<JournalAccount, z.ZodString>),
+  }))
+    .refine(sellers => new Set(sellers.map(seller => seller.vatNumber)).size === sellers.length, "Each VAT number can only be listed once"),
+});
+
+export const newJournalProfileSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  settings: journalProfileSettingsSchema,
+});
+
+export const updateJournalProfileSchema = newJournalProfileSchema.partial();
+
 export const insertScanSessionSchema = createInsertSchema(scanSessions).omit({
   id: true,
+  ownerId: true,
+  apiKeyId: true,
+  organizationId: true,
+  status: true,
+  statusChangedAt: true,
   createdAt: true,
 });
 
-export const insertScannedQRSchema = createInsertSchema(scannedQRs).omit({
+// Blank fields are stored as null so "cleared" and "never set" look the same
+const optionalText = (max: number) =>
+  z.string().trim().max(max).transform(value => value || null).nullable().optional();
+
+export const updateScanSessionSchema = z.object({
+  name: optionalText(200),
+  client: optionalText(200),
+  taxPeriod: optionalText(200),
+  costCenter: optionalText(200),
+  notes: optionalText(2000),
+});
+
+export const sessionStatusChangeSchema = z.object({
+  status: z.enum(SESSION_STATUSES),
+  reason: z.string().trim().max(500).optional(),
+}).refine(change => change.status !== "open" || !!change.reason, {
+  message: "A reason is required to reopen a session",
+  path: ["reason"],
+});
+
+export const moveScansSchema = z.object({
+  ids: z.array(z.number().int()).min(1),
+  targetSessionId: z.string().min(1),
+});
+
+export const mergeSessionsSchema = z.object({
+  sourceSessionId: z.string().min(1),
+});
+
+export const restoreScansSchema = z.object({
+  ids: z.array(z.number().int()).min(1),
+});
+
+export const splitSessionSchema = z.object({
+  by: z.enum(["date", "seller"]),
+});
+
+const tlvDiagnosticSchema = z.object({
+  code: z.enum(TLV_DIAGNOSTIC_CODES),
+  severity: z.enum(["error", "warning"]),
+  message: z.string(),
+  tag: z.number().int().optional(),
+  offset: z.number().int().optional(),
+});
+
+export const insertScannedQRSchema = createInsertSchema(scannedQRs, {
+  // Dates arrive as ISO strings over JSON
+  invoiceDate: z.coerce.date().nullable().optional(),
+  vatNumberError: z.enum(VAT_NUMBER_ERRORS).nullable().optional(),
+  amountFlags: z.array(z.enum(AMOUNT_FLAGS)).nullable().optional(),
+  parseDiagnostics: z.array(tlvDiagnosticSchema).nullable().optional(),
+}).omit({
   id: true,
   scannedAt: true,
+  deletedAt: true,
 });
 
+// Amounts as people type them, e.g. 115 or 115.00
+export const AMOUNT_PATTERN = /^-?\d+(\.\d{1,2})?$/;
+const AMOUNT_MESSAGE = "Enter an amount with up to 2 decimals";
+
+// What clients send to POST /api/qr-codes. Status, validation results and,
+// for scanned codes, all invoice fields are derived from rawData on the server.
+// Manual invoice dates are sent as typed, as ISO-8601 text; the time zone is
+// taken from their offset.
+export const scannedQRInputSchema = insertScannedQRSchema.omit({
+  status: true,
+  invoiceNumberSource: true,
+  vatNumberError: true,
+  invoiceDate: true,
+  invoiceTimezone: true,
+  amountFlags: true,
+  invoiceHash: true,
+  signature: true,
+  publicKey: true,
+  stampSignature: true,
+  signatureStatus: true,
+  parseDiagnostics: true,
+}).extend({
+  invoiceDate: z.string().trim().max(40).nullable().optional(),
+}).superRefine((input, ctx) => {
+  // Manual entries are stored as typed, so they need a seller, a total and
+  // amounts that are numbers
+  if (!input.isManualEntry) return;
+  if (!input.sellerName?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sellerName"], message: "Enter the seller's name" });
+  }
+  if (!input.totalAmount?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["totalAmount"], message: "Enter the invoice total" });
+  }
+  for (const field of ["subtotal", "vatAmount", "totalAmount"] as const) {
+    const value = input[field]?.trim();
+    if (value && !AMOUNT_PATTERN.test(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: AMOUNT_MESSAGE });
+    }
+  }
+});
+
+// Normalized to two decimals so history compares like the stored decimals
+const amount = z.string().trim()
+  .regex(AMOUNT_PATTERN, AMOUNT_MESSAGE)
+  .transform(value => parseFloat(value).toFixed(2));
+
+// Fields a person may correct after a record was saved. Status, signature
+// and decoder results stay as scanned; VAT and amount checks are re-run.
+export const scannedQREditSchema = z.object({
+  sellerName: optionalText(200),
+  vatNumber: optionalText(20),
+  invoiceNumber: optionalText(100),
+  // ISO-8601, e.g. 2024-05-01T10:15:00+03:00; without an offset KSA time is assumed
+  invoiceDate: z.string().trim().nullable().optional(),
+  subtotal: amount.nullable().optional(),
+  vatAmount: amount.nullable().optional(),
+  totalAmount: amount.nullable().optional(),
+  zeroRated: z.boolean().optional(),
+  notes: optionalText(2000),
+});
+
+export const auditLogQuerySchema = z.object({
+  sessionId: z.string().optional(),
+  qrId: z.coerce.number().int().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Query of the export download; the same options as the export dialog.
+// "json" is accepted for the JSON Lines format and "tab" for a tab delimiter.
+export const sessionExportQuerySchema = z.object({
+  format: z.preprocess(value => value === "json" ? "jsonl" : value, z.enum(EXPORT_FORMATS).default("xlsx")),
+  range: z.enum(EXPORT_RANGES).default("all"),
+  ids: z.string().regex(/^\d+(,\d+)*$/, "ids must be a comma-separated list of record ids").optional()
+    .transform(value => value ? value.split(",").map(Number) : []),
+  delimiter: z.preprocess(value => value === "tab" ? "\t" : value, z.enum(CSV_DELIMITERS).default(",")),
+  headers: z.enum(["true", "false"]).default("true").transform(value => value === "true"),
+  filename: z.string().trim().max(200).optional(),
+  // Excel and PDF only
+  template: z.coerce.number().int().positive().optional(),
+  // Journal entries only, where it is required
+  profile: z.coerce.number().int().positive().optional(),
+}).refine(query => query.range !== "selected" || query.ids.length > 0, {
+  message: "range=selected needs the ids of the records",
+  path: ["ids"],
+}).refine(query => !JOURNAL_FORMATS.includes(query.format) || query.profile !== undefined, {
+  message: "Journal entries need the id of a journal profile",
+  path: ["profile"],
+});
+
+export const EDITABLE_QR_FIELDS = scannedQREditSchema.keyof().options;
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = typeof users.$inferInsert;
+// What the API returns for a user; the password hash never leaves the server
+export type PublicUser = Omit<User, "passwordHash">;
+export type Credentials = z.infer<typeof credentialsSchema>;
+export type Organization = typeof organizations.$inferSelect;
+export type NewMember = z.infer<typeof newMemberSchema>;
+export type MemberUpdate = z.infer<typeof memberUpdateSchema>;
+export type UpdateOrganization = z.infer<typeof updateOrganizationSchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+// What the API returns for a key; the hash never leaves the server
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+export type NewApiKey = z.infer<typeof newApiKeySchema>;
+export type ExportTemplate = typeof exportTemplates.$inferSelect;
+export type InsertExportTemplate = typeof exportTemplates.$inferInsert;
+export type NewExportTemplate = z.infer<typeof newExportTemplateSchema>;
+export type UpdateExportTemplate = z.infer<typeof updateExportTemplateSchema>;
+export type JournalProfile = typeof journalProfiles.$inferSelect;
+export type InsertJournalProfile = typeof journalProfiles.$inferInsert;
+export type NewJournalProfile = z.infer<typeof newJournalProfileSchema>;
+export type UpdateJournalProfile = z.infer<typeof updateJournalProfileSchema>;
 export type InsertScanSession = z.infer<typeof insertScanSessionSchema>;
+export type UpdateScanSession = z.infer<typeof updateScanSessionSchema>;
 export type ScanSession = typeof scanSessions.$inferSelect;
+export type SessionStatusChangeRequest = z.infer<typeof sessionStatusChangeSchema>;
+export type SessionStatusChange = typeof sessionStatusChanges.$inferSelect;
 export type InsertScannedQR = z.infer<typeof insertScannedQRSchema>;
+export type ScannedQRInput = z.infer<typeof scannedQRInputSchema>;
 export type ScannedQR = typeof scannedQRs.$inferSelect;
+export type ScannedQREdit = z.infer<typeof scannedQREditSchema>;
+export type EditableQRField = keyof ScannedQREdit;
+export type ScanRecordChange = typeof scanRecordChanges.$inferSelect;
+export type InsertScanRecordChange = typeof scanRecordChanges.$inferInsert;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type SealedAuditEntry = Omit<AuditEntry, "id">;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type SessionExportQuery = z.infer<typeof sessionExportQuerySchema>;
+
+// An event to be appended; sequence, time and hashes are added on append
+export type NewAuditEntry = {
+  action: AuditAction;
+  sessionId?: string | null;
+  qrId?: number | null;
+  actor?: string | null;
+  details?: Record<string, unknown> | null;
+};
+
+// brokenAt is the sequence of the first entry that does not check out
+export type AuditChainVerification = {
+  valid: boolean;
+  entries: number;
+  brokenAt?: number;
+  reason?: string;
+};
+
+export type SessionStats = {
+  totalScans: number;
+  validScans: number;
+  totalAmount: number;
+  errors: number;
+};
+
+// A session as listed in the session picker
+export type SessionSummary = ScanSession & {
+  stats: SessionStats;
+  lastScannedAt: Date | null;
+};
+
+// Records that could not be moved: 'duplicate' when the target session
+// already holds the same QR payload (existingId), 'not_found' for unknown ids
+export type TransferConflict = {
+  id: number;
+  reason: 'duplicate' | 'not_found';
+  existingId?: number;
+  sellerName?: string | null;
+};
+
+export type TransferReport = {
+  targetSessionId: string;
+  moved: number[];
+  conflicts: TransferConflict[];
+};
+
+// Trashed records that collide with a record scanned since are not restored
+export type RestoreReport = {
+  restored: number[];
+  conflicts: TransferConflict[];
+};
+
+export type TrashContents = {
+  records: ScannedQR[];
+  // Trashed records are purged for good after this many days
+  retentionDays: number;
+};
+
+export type SplitReport = {
+  sessions: (TransferReport & { session: ScanSession; label: string })[];
+  // Records without an invoice date or seller stay in the original session
+  unassigned: number[];
+};
+
+export type OrganizationDetails = {
+  organization: Organization;
+  members: PublicUser[];
+};
+
+// The key itself is only returned here, when it is created
+export type CreatedApiKey = {
+  apiKey: PublicApiKey;
+  key: string;
+};
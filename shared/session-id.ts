@@ -0,0 +1,5 @@
+// Session ids are generated by whoever starts a session: the browser for a
+// new scanning session, the server when a split creates one
+export function createSessionId() {
+  return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
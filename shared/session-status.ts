@@ -0,0 +1,26 @@
+// Sessions move from open to locked (submitted) to archived. Only open
+// sessions accept changes to their records; going back to open is a
+// separate, recorded reopen action.
+export const SESSION_STATUSES = ['open', 'locked', 'archived'] as const;
+
+export type SessionStatus = typeof SESSION_STATUSES[number];
+
+export const SESSION_STATUS_LABELS: Record<SessionStatus, string> = {
+  open: 'Open',
+  locked: 'Locked',
+  archived: 'Archived',
+};
+
+const SESSION_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  open: ['locked'],
+  locked: ['archived', 'open'],
+  archived: ['open'],
+};
+
+export function canChangeSessionStatus(from: string, to: SessionStatus): boolean {
+  return SESSION_TRANSITIONS[from as SessionStatus]?.includes(to) ?? false;
+}
+
+export function isSessionWritable(status: string): boolean {
+  return status === 'open';
+}
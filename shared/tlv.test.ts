@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { decodeTLV, decodeTLVText } from './tlv';
+
+const text = (value: string) => Array.from(new TextEncoder().encode(value));
+
+// A field with a single-byte length
+const field = (tag: number, value: number[]) => [tag, value.length, ...value];
+
+// A field with a BER length: 0x81 or 0x82 and then the length bytes
+const berField = (tag: number, value: number[]) =>
+  value.length < 256
+    ? [tag, 0x81, value.length, ...value]
+    : [tag, 0x82, value.length >> 8, value.length & 0xff, ...value];
+
+const decodedTexts = (bytes: number[], options?: Parameters<typeof decodeTLV>[1]) => {
+  const { fields, diagnostics } = decodeTLV(Uint8Array.from(bytes), options);
+  return { texts: fields.map(f => [f.tag, decodeTLVText(f).text]), codes: diagnostics.map(d => d.code) };
+};
+
+describe('decodeTLV', () => {
+  it('reads single-byte lengths', () => {
+    const result = decodedTexts([...field(1, text('Seller')), ...field(4, text('115.00'))]);
+    expect(result).toEqual({ texts: [[1, 'Seller'], [4, '115.00']], codes: [] });
+  });
+
+  it('reads a single byte of 128 or more as the length when that explains the payload', () => {
+    const name = 'x'.repeat(200);
+    const result = decodedTexts([...field(1, text(name)), ...field(2, text('300000000000003'))]);
+    expect(result).toEqual({ texts: [[1, name], [2, '300000000000003']], codes: [] });
+  });
+
+  it('falls back to BER lengths for long values', () => {
+    const name = 'ش'.repeat(150); // 300 bytes, so a two-byte BER length
+    const result = decodedTexts([...berField(1, text(name)), ...berField(2, text('300000000000003'))], { knownTags: [1, 2] });
+    expect(result).toEqual({ texts: [[1, name], [2, '300000000000003']], codes: [] });
+  });
+
+  it('reads BER lengths of 0x81 followed by one byte', () => {
+    const name = 'y'.repeat(130);
+    const result = decodedTexts([...berField(1, text(name)), ...berField(4, text('115.00'))], { knownTags: [1, 4] });
+    expect(result.texts).toEqual([[1, name], [4, '115.00']]);
+    expect(result.codes).toEqual([]);
+  });
+
+  it('keeps to the forced length encoding', () => {
+    const bytes = Uint8Array.from(berField(1, text('z'.repeat(130))));
+    const { diagnostics } = decodeTLV(bytes, { lengthEncoding: 'single-byte' });
+    expect(diagnostics.map(d => d.code)).toContain('truncated_value');
+  });
+
+  it('reports a value that runs past the end', () => {
+    const { fields, diagnostics } = decodeTLV(Uint8Array.from([1, 10, ...text('short')]));
+    expect(fields).toEqual([]);
+    expect(diagnostics).toMatchObject([{ code: 'truncated_value', severity: 'error', tag: 1, offset: 0 }]);
+  });
+
+  it('reports a BER length whose bytes are cut off', () => {
+    const { diagnostics } = decodeTLV(Uint8Array.from([1, 0x82, 0x01]), { lengthEncoding: 'ber' });
+    expect(diagnostics).toMatchObject([{ code: 'truncated_length', severity: 'error', tag: 1 }]);
+  });
+
+  it('reports a trailing byte after the last field', () => {
+    const { fields, diagnostics } = decodeTLV(Uint8Array.from([...field(1, text('A')), 2]));
+    expect(fields).toHaveLength(1);
+    expect(diagnostics).toMatchObject([{ code: 'trailing_bytes', severity: 'error', offset: 3 }]);
+  });
+
+  it('warns about tags outside the known ones and keeps decoding', () => {
+    const { fields, diagnostics } = decodeTLV(Uint8Array.from([...field(1, text('A')), ...field(42, text('B'))]), { knownTags: [1] });
+    expect(fields.map(f => f.tag)).toEqual([1, 42]);
+    expect(diagnostics).toMatchObject([{ code: 'unknown_tag', severity: 'warning', tag: 42, offset: 3 }]);
+  });
+});
+
+describe('decodeTLVText', () => {
+  it('reports malformed UTF-8 instead of replacing it silently', () => {
+    const { fields } = decodeTLV(Uint8Array.from(field(1, [0xd8, 0x41])));
+    const { text: value, diagnostic } = decodeTLVText(fields[0]);
+    expect(value).toContain('�');
+    expect(diagnostic).toMatchObject({ code: 'invalid_utf8', severity: 'error', tag: 1 });
+  });
+});
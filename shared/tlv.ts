@@ -0,0 +1,172 @@
+// Generic Tag-Length-Value decoder used for ZATCA QR payloads.
+//
+// Lengths are read either as a single byte (what most Phase 1 generators
+// emit) or in BER form, where a first byte of 0x81-0x84 announces 1-4
+// following length bytes. The two encodings overlap for values >= 128, so
+// decodeTLV tries single-byte lengths first and falls back to BER when that
+// does not explain the payload cleanly.
+
+export const TLV_DIAGNOSTIC_CODES = [
+  'unknown_tag',
+  'truncated_length',
+  'truncated_value',
+  'trailing_bytes',
+  'invalid_utf8',
+  'missing_field',
+  'invalid_value',
+] as const;
+
+export type TLVDiagnosticCode = typeof TLV_DIAGNOSTIC_CODES[number];
+
+export interface TLVDiagnostic {
+  code: TLVDiagnosticCode;
+  severity: 'error' | 'warning';
+  message: string;
+  tag?: number;
+  offset?: number;
+}
+
+export interface TLVField {
+  tag: number;
+  offset: number;
+  value: Uint8Array;
+}
+
+export interface TLVDecodeResult {
+  fields: TLVField[];
+  diagnostics: TLVDiagnostic[];
+}
+
+export type TLVLengthEncoding = 'single-byte' | 'ber';
+
+export interface TLVDecodeOptions {
+  // Tags outside this list are reported as 'unknown_tag' warnings
+  knownTags?: number[];
+  // Force one length encoding instead of picking the best fit
+  lengthEncoding?: TLVLengthEncoding;
+}
+
+function readLength(
+  bytes: Uint8Array,
+  offset: number,
+  encoding: TLVLengthEncoding,
+): { length: number; size: number } | null {
+  if (offset >= bytes.length) return null;
+
+  const first = bytes[offset];
+  if (encoding === 'single-byte' || first < 0x80) {
+    return { length: first, size: 1 };
+  }
+
+  const count = first & 0x7f;
+  if (count === 0 || count > 4 || offset + count >= bytes.length) return null;
+
+  let length = 0;
+  for (let i = 1; i <= count; i++) {
+    length = length * 256 + bytes[offset + i];
+  }
+  return { length, size: 1 + count };
+}
+
+function decodeWith(
+  bytes: Uint8Array,
+  encoding: TLVLengthEncoding,
+  knownTags?: number[],
+): TLVDecodeResult {
+  const fields: TLVField[] = [];
+  const diagnostics: TLVDiagnostic[] = [];
+  let position = 0;
+
+  while (position < bytes.length) {
+    const tag = bytes[position];
+
+    if (position + 1 >= bytes.length) {
+      diagnostics.push({
+        code: 'trailing_bytes',
+        severity: 'error',
+        message: `${bytes.length - position} trailing byte(s) after the last complete field`,
+        offset: position,
+      });
+      break;
+    }
+
+    const header = readLength(bytes, position + 1, encoding);
+    if (!header) {
+      diagnostics.push({
+        code: 'truncated_length',
+        severity: 'error',
+        message: `Length of tag ${tag} is cut off`,
+        tag,
+        offset: position,
+      });
+      break;
+    }
+
+    const valueStart = position + 1 + header.size;
+    const valueEnd = valueStart + header.length;
+    if (valueEnd > bytes.length) {
+      diagnostics.push({
+        code: 'truncated_value',
+        severity: 'error',
+        message: `Tag ${tag} declares ${header.length} bytes but only ${bytes.length - valueStart} remain`,
+        tag,
+        offset: position,
+      });
+      break;
+    }
+
+    if (knownTags && !knownTags.includes(tag)) {
+      diagnostics.push({
+        code: 'unknown_tag',
+        severity: 'warning',
+        message: `Unknown tag ${tag} (${header.length} bytes) was ignored`,
+        tag,
+        offset: position,
+      });
+    }
+
+    fields.push({ tag, offset: position, value: bytes.slice(valueStart, valueEnd) });
+    position = valueEnd;
+  }
+
+  return { fields, diagnostics };
+}
+
+// Errors always outweigh warnings; spurious unknown tags are the usual sign
+// that a BER payload was read with single-byte lengths
+function score(result: TLVDecodeResult): number {
+  return result.diagnostics.reduce((total, d) => total + (d.severity === 'error' ? 1000 : 1), 0);
+}
+
+export function decodeTLV(bytes: Uint8Array, options: TLVDecodeOptions = {}): TLVDecodeResult {
+  if (options.lengthEncoding) {
+    return decodeWith(bytes, options.lengthEncoding, options.knownTags);
+  }
+
+  const singleByte = decodeWith(bytes, 'single-byte', options.knownTags);
+  if (singleByte.diagnostics.length === 0) {
+    return singleByte;
+  }
+
+  const ber = decodeWith(bytes, 'ber', options.knownTags);
+  return score(ber) < score(singleByte) ? ber : singleByte;
+}
+
+// Decodes a field value as strict UTF-8, reporting malformed sequences
+// instead of silently substituting U+FFFD
+export function decodeTLVText(field: TLVField): { text: string; diagnostic?: TLVDiagnostic } {
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(field.value) };
+  } catch {
+    return {
+      text: new TextDecoder('utf-8').decode(field.value),
+      diagnostic: {
+        code: 'invalid_utf8',
+        severity: 'error',
+        message: `Tag ${field.tag} is not valid UTF-8`,
+        tag: field.tag,
+        offset: field.offset,
+      },
+    };
+  }
+}
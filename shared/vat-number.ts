@@ -0,0 +1,31 @@
+// Saudi VAT registration numbers (TRN) are 15 digits that start and end with 3
+export const VAT_NUMBER_ERRORS = [
+  'empty',
+  'non_numeric',
+  'invalid_length',
+  'invalid_prefix',
+  'invalid_suffix',
+] as const;
+
+export type VatNumberError = typeof VAT_NUMBER_ERRORS[number];
+
+export const VAT_NUMBER_ERROR_MESSAGES: Record<VatNumberError, string> = {
+  empty: 'VAT number is required',
+  non_numeric: 'VAT number must contain digits only',
+  invalid_length: 'VAT number must be exactly 15 digits',
+  invalid_prefix: 'VAT number must start with 3',
+  invalid_suffix: 'VAT number must end with 3',
+};
+
+// Returns the first rule the number breaks, or null when it is a valid TRN
+export function validateVatNumber(value: string | null | undefined): VatNumberError | null {
+  const vatNumber = (value ?? '').trim();
+
+  if (!vatNumber) return 'empty';
+  if (!/^\d+$/.test(vatNumber)) return 'non_numeric';
+  if (vatNumber.length !== 15) return 'invalid_length';
+  if (!vatNumber.startsWith('3')) return 'invalid_prefix';
+  if (!vatNumber.endsWith('3')) return 'invalid_suffix';
+
+  return null;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { decodeZATCAQR } from './zatca-parser';
+
+const tlv = (tag: number, value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  return [tag, bytes.length, ...Array.from(bytes)];
+};
+
+const qrCode = (fields: Array<[number, string]>) =>
+  Buffer.from(fields.flatMap(([tag, value]) => tlv(tag, value))).toString('base64');
+
+const phase1 = (overrides: Record<number, string> = {}) => {
+  const fields: Record<number, string> = {
+    1: 'شركة الاختبار',
+    2: '300000000000003',
+    3: '2024-05-01T10:15:00+03:00',
+    4: '115.00',
+    5: '15.00',
+    ...overrides,
+  };
+  return qrCode(Object.entries(fields).map(([tag, value]) => [Number(tag), value]));
+};
+
+describe('decodeZATCAQR', () => {
+  it('decodes a Phase 1 code', () => {
+    const { data, diagnostics } = decodeZATCAQR(phase1());
+    expect(diagnostics).toEqual([]);
+    expect(data).toMatchObject({
+      sellerName: 'شركة الاختبار',
+      vatNumber: '300000000000003',
+      totalAmount: 115,
+      vatAmount: 15,
+      subtotal: 100,
+      invoiceTimezone: '+03:00',
+    });
+  });
+
+  it('reports a missing required tag', () => {
+    const { data, diagnostics } = decodeZATCAQR(qrCode([[1, 'Seller'], [4, '115.00']]));
+    expect(data).toBeNull();
+    expect(diagnostics).toMatchObject([{ code: 'missing_field', severity: 'error', tag: 2 }]);
+  });
+
+  it('reports an amount that is not a number as an invalid value, not as missing', () => {
+    const total = decodeZATCAQR(phase1({ 4: 'abc' }));
+    expect(total.data).toBeNull();
+    expect(total.diagnostics).toMatchObject([{ code: 'invalid_value', severity: 'error', tag: 4 }]);
+
+    const vat = decodeZATCAQR(phase1({ 5: 'n/a' }));
+    expect(vat.data).toBeNull();
+    expect(vat.diagnostics).toMatchObject([{ code: 'invalid_value', severity: 'error', tag: 5 }]);
+  });
+
+  it('reports an amount with trailing text or thousands separators as an invalid value', () => {
+    for (const amount of ['12abc', '1,234.50', '115.00 SAR', '1e3', '.5']) {
+      const { data, diagnostics } = decodeZATCAQR(phase1({ 4: amount }));
+      expect(data, amount).toBeNull();
+      expect(diagnostics, amount).toMatchObject([{ code: 'invalid_value', tag: 4 }]);
+    }
+    expect(decodeZATCAQR(phase1({ 4: ' 115.00 ', 5: '-15' })).data).toMatchObject({ totalAmount: 115, vatAmount: -15 });
+  });
+
+  it('reports an empty total as missing', () => {
+    const { diagnostics } = decodeZATCAQR(phase1({ 4: '' }));
+    expect(diagnostics).toMatchObject([{ code: 'missing_field', tag: 4 }]);
+  });
+
+  it('warns about a timestamp that is not ISO-8601 but keeps the code', () => {
+    const { data, diagnostics } = decodeZATCAQR(phase1({ 3: 'yesterday' }));
+    expect(data).not.toBeNull();
+    expect(diagnostics).toMatchObject([{ code: 'invalid_value', severity: 'warning', tag: 3 }]);
+  });
+});
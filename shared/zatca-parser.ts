@@ -0,0 +1,181 @@
+import { decodeTLV, decodeTLVText, type TLVDiagnostic } from './tlv';
+import { parseInvoiceTimestamp } from './invoice-date';
+
+export interface ZATCAData {
+  sellerName: string;
+  vatNumber: string;
+  invoiceDate?: Date;
+  invoiceTimezone?: string | null;
+  subtotal: number;
+  vatAmount: number;
+  totalAmount: number;
+  // Phase 2 (integration phase) cryptographic fields, absent on Phase 1 codes
+  invoiceHash?: string;
+  signature?: string;
+  publicKey?: string;
+  stampSignature?: string;
+}
+
+export type ZATCAPhase = 1 | 2;
+
+// Phase 2 codes carry the invoice hash, its ECDSA signature and the signing key
+export function getZATCAPhase(data: {
+  invoiceHash?: string | null;
+  signature?: string | null;
+  publicKey?: string | null;
+}): ZATCAPhase {
+  return data.invoiceHash && data.signature && data.publicKey ? 2 : 1;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+}
+
+export interface ZATCAParseResult {
+  data: ZATCAData | null;
+  diagnostics: TLVDiagnostic[];
+}
+
+const KNOWN_TAGS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+const BINARY_TAGS = [8, 9];
+// Plain decimals only: parseFloat would read "12abc" as 12 and "1,234.50" as 1
+const DECIMAL_AMOUNT = /^-?\d+(\.\d+)?$/;
+const REQUIRED_TAGS: Array<{ tag: number; field: keyof ZATCAData; label: string }> = [
+  { tag: 1, field: 'sellerName', label: 'seller name' },
+  { tag: 2, field: 'vatNumber', label: 'VAT number' },
+  { tag: 4, field: 'totalAmount', label: 'invoice total' },
+];
+
+export function decodeZATCAQR(qrData: string): ZATCAParseResult {
+  try {
+    // ZATCA QR codes use TLV (Tag-Length-Value) format
+    // The data is base64 encoded and follows specific tags:
+    // Tag 1: Seller name (Arabic/English)
+    // Tag 2: VAT registration number
+    // Tag 3: Invoice date and time
+    // Tag 4: Invoice total (including VAT)
+    // Tag 5: VAT total
+    // Phase 2 codes additionally carry:
+    // Tag 6: Hash of the XML invoice (base64 text)
+    // Tag 7: ECDSA signature of the invoice hash (base64 text)
+    // Tag 8: ECDSA public key (raw DER bytes)
+    // Tag 9: Cryptographic stamp signature by the ZATCA CA (raw DER bytes)
+    
+    let binaryData: Uint8Array;
+    
+    // Try to decode if it's base64
+    try {
+      const base64String = qrData.replace(/\s/g, '');
+      binaryData = Uint8Array.from(atob(base64String), c => c.charCodeAt(0));
+    } catch {
+      // If not base64, fall back to the UTF-8 bytes of the raw data
+      binaryData = new TextEncoder().encode(qrData);
+    }
+    
+    const { fields, diagnostics } = decodeTLV(binaryData, { knownTags: KNOWN_TAGS });
+    const data: Partial<ZATCAData> = {};
+    
+    for (const field of fields) {
+      let value = '';
+      if (!BINARY_TAGS.includes(field.tag)) {
+        // Extract value as strict UTF-8 for proper Arabic text handling
+        const decoded = decodeTLVText(field);
+        value = decoded.text;
+        if (decoded.diagnostic) {
+          diagnostics.push(decoded.diagnostic);
+        }
+      }
+      
+      switch (field.tag) {
+        case 1: // Seller name (supports Arabic text)
+          data.sellerName = value.trim();
+          break;
+        case 2: // VAT registration number
+          data.vatNumber = value.trim();
+          break;
+        case 3: { // Invoice date and time (ISO format)
+          const timestamp = parseInvoiceTimestamp(value);
+          if (timestamp) {
+            data.invoiceDate = timestamp.date;
+            data.invoiceTimezone = timestamp.timezone;
+          } else {
+            diagnostics.push({
+              code: 'invalid_value',
+              severity: 'warning',
+              message: `Tag 3 timestamp "${value}" is not ISO-8601`,
+              tag: field.tag,
+              offset: field.offset,
+            });
+          }
+          break;
+        }
+        case 4: // Invoice total including VAT
+        case 5: { // VAT total
+          const amount = DECIMAL_AMOUNT.test(value.trim()) ? parseFloat(value) : NaN;
+          if (Number.isNaN(amount)) {
+            // An empty value is reported as missing below
+            if (value.trim()) {
+              diagnostics.push({
+                code: 'invalid_value',
+                severity: 'error',
+                message: `Tag ${field.tag} amount "${value}" is not a number`,
+                tag: field.tag,
+                offset: field.offset,
+              });
+            }
+          } else if (field.tag === 4) {
+            data.totalAmount = amount;
+          } else {
+            data.vatAmount = amount;
+          }
+          break;
+        }
+        case 6: // Invoice XML hash
+          data.invoiceHash = value.trim();
+          break;
+        case 7: // ECDSA signature
+          data.signature = value.trim();
+          break;
+        case 8: // ECDSA public key (binary, kept as base64)
+          data.publicKey = bytesToBase64(field.value);
+          break;
+        case 9: // Cryptographic stamp signature (binary, kept as base64)
+          data.stampSignature = bytesToBase64(field.value);
+          break;
+      }
+    }
+    
+    // Calculate subtotal if we have total and VAT
+    if (data.totalAmount !== undefined && data.vatAmount !== undefined) {
+      data.subtotal = data.totalAmount - data.vatAmount;
+    }
+    
+    // Validate required fields; one that is present but unreadable has
+    // already been reported as an invalid value
+    for (const { tag, field, label } of REQUIRED_TAGS) {
+      const invalid = diagnostics.some(d => d.code === 'invalid_value' && d.tag === tag);
+      if (!data[field] && data[field] !== 0 && !invalid) {
+        diagnostics.push({
+          code: 'missing_field',
+          severity: 'error',
+          message: `Required tag ${tag} (${label}) is missing`,
+          tag,
+        });
+      }
+    }
+    
+    const hasErrors = diagnostics.some(d => d.severity === 'error');
+    return { data: hasErrors ? null : data as ZATCAData, diagnostics };
+  } catch (error) {
+    console.error('Error parsing ZATCA QR:', error);
+    return { data: null, diagnostics: [] };
+  }
+}
+
+export function parseZATCAQR(qrData: string): ZATCAData | null {
+  return decodeZATCAQR(qrData).data;
+}
+
+export function isValidZATCAQR(qrData: string): boolean {
+  return parseZATCAQR(qrData) !== null;
+}
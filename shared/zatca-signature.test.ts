@@ -0,0 +1,58 @@
+import { createHash, createSign, generateKeyPairSync } from 'crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { verifyZATCASignature } from './zatca-signature';
+
+// A secp256k1 key and a SHA256withECDSA signature over an invoice hash, as
+// Phase 2 generators produce them with OpenSSL
+function signInvoice(xml = '<Invoice/>') {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+  const hash = createHash('sha256').update(xml).digest();
+  const signature = createSign('sha256').update(hash).sign(privateKey);
+  const spki = publicKey.export({ type: 'spki', format: 'der' });
+  return {
+    invoiceHash: hash.toString('base64'),
+    signature: signature.toString('base64'),
+    publicKey: spki.toString('base64'),
+    spki,
+  };
+}
+
+describe('verifyZATCASignature', () => {
+  it('verifies a signature with a DER SubjectPublicKeyInfo key', () => {
+    expect(verifyZATCASignature(signInvoice())).toBe('verified');
+  });
+
+  it('verifies a signature with a raw uncompressed point', () => {
+    const signed = signInvoice();
+    const point = signed.spki.subarray(signed.spki.length - 65);
+    expect(verifyZATCASignature({ ...signed, publicKey: point.toString('base64') })).toBe('verified');
+  });
+
+  it('verifies a key that was put into tag 8 as base64 text', () => {
+    const signed = signInvoice();
+    const keyAsText = Buffer.from(signed.publicKey).toString('base64');
+    expect(verifyZATCASignature({ ...signed, publicKey: keyAsText })).toBe('verified');
+  });
+
+  it('fails when the invoice hash was changed', () => {
+    const signed = signInvoice();
+    const otherHash = createHash('sha256').update('<Invoice total="1"/>').digest('base64');
+    expect(verifyZATCASignature({ ...signed, invoiceHash: otherHash })).toBe('failed');
+  });
+
+  it('fails when the signature belongs to another key', () => {
+    const signed = signInvoice();
+    expect(verifyZATCASignature({ ...signed, publicKey: signInvoice().publicKey })).toBe('failed');
+  });
+
+  it('fails on a key that cannot be read', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(verifyZATCASignature({ ...signInvoice(), publicKey: Buffer.from([0x30, 0x03, 0x01]).toString('base64') })).toBe('failed');
+  });
+
+  it('leaves Phase 1 codes unsigned', () => {
+    const { invoiceHash } = signInvoice();
+    expect(verifyZATCASignature({ invoiceHash, signature: null, publicKey: null })).toBe('unsigned');
+    expect(verifyZATCASignature({})).toBe('unsigned');
+  });
+});
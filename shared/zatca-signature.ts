@@ -0,0 +1,104 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { getZATCAPhase } from './zatca-parser';
+
+// 'verified': tag 7 is a valid signature of tag 6 under the tag 8 key
+// 'failed': the signature, hash or key does not check out (possible forgery)
+// 'unsigned': Phase 1 code or manual entry, nothing to verify
+export type SignatureStatus = 'verified' | 'failed' | 'unsigned';
+
+interface SignedFields {
+  invoiceHash?: string | null;
+  signature?: string | null;
+  publicKey?: string | null;
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value.replace(/\s/g, '')), c => c.charCodeAt(0));
+}
+
+// Reads a DER length starting at `offset`, returning the length and the header size
+function readDerLength(bytes: Uint8Array, offset: number): { length: number; size: number } {
+  const first = bytes[offset];
+  if (first < 0x80) {
+    return { length: first, size: 1 };
+  }
+  const count = first & 0x7f;
+  let length = 0;
+  for (let i = 1; i <= count; i++) {
+    length = (length << 8) | bytes[offset + i];
+  }
+  return { length, size: 1 + count };
+}
+
+// Extracts the EC point from a SubjectPublicKeyInfo structure:
+// SEQUENCE { SEQUENCE { algorithm, curve }, BIT STRING { point } }
+function extractPublicKeyPoint(keyBytes: Uint8Array): Uint8Array {
+  // Raw compressed or uncompressed point
+  if ((keyBytes.length === 33 || keyBytes.length === 65) && keyBytes[0] !== 0x30) {
+    return keyBytes;
+  }
+
+  if (keyBytes[0] !== 0x30) {
+    throw new Error('Public key is not a DER SubjectPublicKeyInfo');
+  }
+
+  let position = 1 + readDerLength(keyBytes, 1).size;
+
+  // Skip the AlgorithmIdentifier sequence
+  if (keyBytes[position] !== 0x30) {
+    throw new Error('Missing public key algorithm identifier');
+  }
+  const algorithm = readDerLength(keyBytes, position + 1);
+  position += 1 + algorithm.size + algorithm.length;
+
+  if (keyBytes[position] !== 0x03) {
+    throw new Error('Missing public key bit string');
+  }
+  const bitString = readDerLength(keyBytes, position + 1);
+  const start = position + 1 + bitString.size + 1; // skip the unused-bits byte
+  return keyBytes.slice(start, start + bitString.length - 1);
+}
+
+function decodePublicKey(publicKey: string): Uint8Array {
+  const bytes = base64ToBytes(publicKey);
+  try {
+    return extractPublicKeyPoint(bytes);
+  } catch (error) {
+    // Some generators put the key into tag 8 as base64 text rather than raw bytes
+    const text = new TextDecoder('utf-8').decode(bytes);
+    if (/^[A-Za-z0-9+/=\s]+$/.test(text)) {
+      return extractPublicKeyPoint(base64ToBytes(text));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Verifies the tag 7 ECDSA (secp256k1, SHA-256) signature over the tag 6
+ * invoice hash with the tag 8 public key. Runs locally, without
+ * contacting ZATCA.
+ */
+export function verifyZATCASignature(data: SignedFields): SignatureStatus {
+  if (getZATCAPhase(data) !== 2) {
+    return 'unsigned';
+  }
+
+  try {
+    const hashBytes = base64ToBytes(data.invoiceHash!);
+    const signatureBytes = base64ToBytes(data.signature!);
+    const publicKeyPoint = decodePublicKey(data.publicKey!);
+
+    // ZATCA signs the raw hash bytes with SHA256withECDSA, and signatures
+    // produced by OpenSSL are not normalised to low-S
+    const isValid = secp256k1.verify(signatureBytes, hashBytes, publicKeyPoint, {
+      prehash: true,
+      lowS: false,
+      format: 'der',
+    });
+
+    return isValid ? 'verified' : 'failed';
+  } catch (error) {
+    console.warn('ZATCA signature verification failed:', error);
+    return 'failed';
+  }
+}